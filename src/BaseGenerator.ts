@@ -4,6 +4,9 @@
  */
 import { FileSystemAPI } from './FileSystem.js';
 import { OpenApiSpec, SchemaDefinition } from './types.js';
+import { TemplateEngine } from './core/TemplateEngine.js';
+import { ApiModel, ApiModelBuilder, getSchemaTypes } from './core/ApiModel.js';
+import { SCHEMA_CONSTRAINTS, SCHEMA_FORMAT_CONSTRAINTS } from './templates/schema.template.js';
 import SwaggerParser from '@apidevtools/swagger-parser';
 import path from 'path';
 import fs from 'fs';
@@ -20,6 +23,16 @@ export interface GeneratorConfig {
   naming: {
     conventions: Record<string, string>;
   };
+  options?: Record<string, any>;
+}
+
+/**
+ * A member of a oneOf/anyOf schema together with the discriminator value that selects it
+ */
+export interface SchemaVariant {
+  schema: any;
+  name: string | null;
+  discriminatorValue: string | null;
 }
 
 export interface GenerationContext {
@@ -187,6 +200,24 @@ export abstract class BaseGenerator {
     this.context.spec = this.spec;
   }
 
+  /**
+   * Share the model built once for the whole run, so every generator sees the same
+   * operations, names and schema roles
+   */
+  public setApiModel(model: ApiModel): void {
+    this.apiModel = model;
+  }
+
+  /**
+   * The shared model, built from this generator's spec when none was provided
+   */
+  protected getApiModel(): ApiModel {
+    if (!this.apiModel || this.apiModel.spec !== this.spec) {
+      this.apiModel = new ApiModelBuilder(this.spec).build();
+    }
+    return this.apiModel;
+  }
+
   // Abstract method for getting the generator key
   protected abstract getGeneratorKey(): string;
 
@@ -198,6 +229,24 @@ export abstract class BaseGenerator {
       .toLowerCase();
   }
 
+  /**
+   * Runtime shared by the generated services: \`paths.core\` when configured, otherwise the
+   * \`core\` directory next to the services
+   */
+  protected getCoreDirectory(): string {
+    return this.config.paths?.core
+      ? this.getOutputDirectory('core')
+      : path.join(this.getOutputDirectory('services'), '..', 'core');
+  }
+
+  /**
+   * Module specifier of a generated file or directory, relative to the importing directory
+   */
+  protected getImportPath(fromDirectory: string, target: string): string {
+    const relativePath = path.relative(fromDirectory, target).split(path.sep).join('/');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+  }
+
   protected toPascalCase(str: string): string {
     return str
       .replace(/[-_](.)/g, (_, char) => char.toUpperCase())
@@ -217,38 +266,336 @@ export abstract class BaseGenerator {
     return ref.split('/').pop() || 'Unknown';
   }
 
-  protected getTypeFromSchema(schema: any): string {
+  /**
+   * Resolve the component name of a schema, either from its $ref or - once the spec
+   * is dereferenced - from object identity with `components.schemas`
+   * (swagger-parser keeps reference equality for every resolved $ref)
+   */
+  protected getSchemaRefName(schema: any): string | null {
+    if (!schema || typeof schema !== 'object') {
+      return null;
+    }
     if (schema.$ref) {
       return this.extractNameFromRef(schema.$ref);
     }
+    return this.getApiModel().getSchemaName(schema);
+  }
+
+  /**
+   * Type expression for a nested schema: named component schemas are referenced by name
+   * and recorded in `referencedTypeNames` so callers can emit the matching imports
+   */
+  protected getTypeReference(schema: any): string {
+    const refName = this.getSchemaRefName(schema);
+    if (refName) {
+      this.referencedTypeNames.add(refName);
+      return refName;
+    }
+    return this.getTypeFromSchema(schema);
+  }
+
+  protected getTypeFromSchema(schema: any): string {
+    if (schema.$ref) {
+      const refName = this.extractNameFromRef(schema.$ref);
+      this.referencedTypeNames.add(refName);
+      return refName;
+    }
 
-    switch (schema.type) {
+    if (schema.const !== undefined) {
+      return this.formatLiteral(schema.const);
+    }
+
+    if (schema.oneOf || schema.anyOf) {
+      const unionType = this.getUnionType(schema);
+      return this.isNullableSchema(schema) ? `${unionType} | null` : unionType;
+    }
+
+    if (schema.allOf) {
+      const { allOf, nullable, ...ownSchema } = schema;
+      const members = allOf.map((member: any) => this.wrapCompositeType(this.getTypeReference(member)));
+      if (ownSchema.properties) {
+        members.push(this.getTypeFromSchema(ownSchema));
+      }
+      const intersectionType = members.join(' & ');
+      if (!this.isNullableSchema(schema)) {
+        return intersectionType;
+      }
+      return members.length > 1 ? `(${intersectionType}) | null` : `${intersectionType} | null`;
+    }
+
+    const types = this.getSchemaTypes(schema);
+    const nonNullTypes = types.filter(type => type !== 'null');
+    if (types.length > 0 && nonNullTypes.length === 0) {
+      return 'null';
+    }
+    const baseType = nonNullTypes.length > 1
+      ? nonNullTypes.map(type => this.getTypeForSchemaType(type, schema)).join(' | ')
+      : this.getTypeForSchemaType(nonNullTypes[0], schema);
+
+    if (this.isNullableSchema(schema) && baseType !== 'any') {
+      return `${baseType} | null`;
+    }
+    return baseType;
+  }
+
+  private getTypeForSchemaType(type: string | undefined, schema: any): string {
+    switch (type) {
       case 'string':
-        if (schema.enum) {
-          return schema.enum.map((e: string) => `'${e}'`).join(' | ');
-        }
-        return 'string';
       case 'number':
       case 'integer':
-        return 'number';
       case 'boolean':
-        return 'boolean';
-      case 'array':
-        const itemType = schema.items ? this.getTypeFromSchema(schema.items) : 'any';
-        return `${itemType}[]`;
+        if (schema.enum) {
+          return this.getEnumValues(schema, type).map(value => this.formatLiteral(value)).join(' | ');
+        }
+        // File contents (multipart fields, uploads)
+        if (type === 'string' && schema.format === 'binary') {
+          return 'Blob';
+        }
+        return type === 'integer' ? 'number' : type;
+      case 'array': {
+        if (schema.prefixItems) {
+          const tupleTypes = schema.prefixItems.map((item: any) => this.getTypeReference(item));
+          if (schema.items) {
+            tupleTypes.push(`...${this.wrapArrayItemType(this.getTypeReference(schema.items))}[]`);
+          }
+          return `[${tupleTypes.join(', ')}]`;
+        }
+        const itemType = schema.items ? this.getTypeReference(schema.items) : 'any';
+        return `${this.wrapArrayItemType(itemType)}[]`;
+      }
       case 'object':
         if (schema.properties) {
+          const required: string[] = schema.required || [];
           const propTypes = Object.entries(schema.properties).map(([key, val]) => 
-            `${key}: ${this.getTypeFromSchema(val)}`
-          ).join(', ');
+            `${key}${required.includes(key) ? '' : '?'}: ${this.getTypeReference(val)}`
+          ).join('; ');
           return `{ ${propTypes} }`;
         }
+        // Maps such as validation error bags keep their value type
+        if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          return `Record<string, ${this.getTypeReference(schema.additionalProperties)}>`;
+        }
         return 'Record<string, any>';
+      case 'null':
+        return 'null';
       default:
         return 'any';
     }
   }
 
+  protected wrapArrayItemType(itemType: string): string {
+    return itemType.includes(' | ') || itemType.includes(' & ') ? `(${itemType})` : itemType;
+  }
+
+  private wrapCompositeType(type: string): string {
+    return type.includes(' | ') ? `(${type})` : type;
+  }
+
+  /**
+   * oneOf/anyOf become TypeScript unions. With a discriminator, variants that do not already
+   * declare the discriminator as a literal are narrowed so the union discriminates properly.
+   */
+  private getUnionType(schema: any): string {
+    const propertyName = schema.discriminator?.propertyName;
+    const variantTypes = this.getSchemaVariants(schema).map(variant => {
+      const variantType = this.wrapCompositeType(this.getTypeReference(variant.schema));
+      if (!propertyName || variant.discriminatorValue === null ||
+          this.getDeclaredDiscriminatorValue(variant.schema, propertyName) !== null) {
+        return variantType;
+      }
+      return `(${variantType} & { ${propertyName}: ${this.formatLiteral(variant.discriminatorValue)} })`;
+    });
+
+    return variantTypes.length > 0 ? Array.from(new Set(variantTypes)).join(' | ') : 'any';
+  }
+
+  /**
+   * List the oneOf/anyOf members of a schema with the discriminator value that selects each one.
+   * Values come from `discriminator.mapping`, then from a const/single enum declared on the
+   * variant, and finally from the variant schema name (the OpenAPI default).
+   */
+  protected getSchemaVariants(schema: any): SchemaVariant[] {
+    const members: any[] = schema?.oneOf || schema?.anyOf || [];
+    const propertyName: string | undefined = schema?.discriminator?.propertyName;
+    const mapping: Record<string, string> = schema?.discriminator?.mapping || {};
+
+    return members.map(member => {
+      const name = this.getSchemaRefName(member);
+      if (!propertyName) {
+        return { schema: member, name, discriminatorValue: null };
+      }
+
+      const mapped = Object.entries(mapping).find(([, target]) =>
+        name !== null && (target === name || this.extractNameFromRef(target) === name)
+      );
+      const discriminatorValue = mapped?.[0] ??
+        this.getDeclaredDiscriminatorValue(member, propertyName) ??
+        name;
+
+      return { schema: member, name, discriminatorValue };
+    });
+  }
+
+  private getDeclaredDiscriminatorValue(schema: any, propertyName: string): string | null {
+    const property = this.getObjectProperties(schema)[propertyName];
+    if (property?.const !== undefined) {
+      return String(property.const);
+    }
+    if (Array.isArray(property?.enum) && property.enum.length === 1) {
+      return String(property.enum[0]);
+    }
+    return null;
+  }
+
+  /**
+   * Collect the properties of an object schema, following allOf composition
+   */
+  protected getObjectProperties(schema: any): Record<string, any> {
+    if (!schema || typeof schema !== 'object') {
+      return {};
+    }
+    const inherited = (schema.allOf || []).reduce(
+      (properties: Record<string, any>, member: any) => ({ ...properties, ...this.getObjectProperties(member) }),
+      {}
+    );
+    return { ...inherited, ...(schema.properties || {}) };
+  }
+
+  protected getReadOnlyProperties(schema: any): string[] {
+    return Object.entries(this.getObjectProperties(schema))
+      .filter(([, property]) => property?.readOnly === true)
+      .map(([name]) => name);
+  }
+
+  protected getWriteOnlyProperties(schema: any): string[] {
+    return Object.entries(this.getObjectProperties(schema))
+      .filter(([, property]) => property?.writeOnly === true)
+      .map(([name]) => name);
+  }
+
+  /**
+   * Name of the type sent in request bodies: `<Name>Request` omits readOnly properties
+   * when the schema declares any (and the name is not already taken by a component)
+   */
+  protected getRequestTypeName(name: string, schema: any): string {
+    const requestName = `${name}Request`;
+    return this.getReadOnlyProperties(schema).length > 0 && !this.spec.components.schemas[requestName]
+      ? requestName
+      : name;
+  }
+
+  /**
+   * Name of the type received in responses: `<Name>Response` omits writeOnly properties
+   */
+  protected getResponseTypeName(name: string, schema: any): string {
+    const responseName = `${name}Response`;
+    return this.getWriteOnlyProperties(schema).length > 0 && !this.spec.components.schemas[responseName]
+      ? responseName
+      : name;
+  }
+
+  protected getRequiredProperties(schema: any): string[] {
+    if (!schema || typeof schema !== 'object') {
+      return [];
+    }
+    const inherited = (schema.allOf || []).flatMap((member: any) => this.getRequiredProperties(member));
+    return [...inherited, ...(schema.required || [])];
+  }
+
+  /**
+   * Returns the declared types of a schema as a list, see getSchemaTypes in the API model
+   */
+  protected getSchemaTypes(schema: any): string[] {
+    return getSchemaTypes(schema);
+  }
+
+  /**
+   * Returns the primary (non-null) type of a schema, used by generators that switch on a single type
+   */
+  protected getSchemaType(schema: any): string | undefined {
+    return this.getSchemaTypes(schema).find(type => type !== 'null');
+  }
+
+  /**
+   * The enum values of one of the schema's types, so `enum: [1, 'a']` splits into `1` and `'a'`;
+   * all of them when none matches the type
+   */
+  protected getEnumValues(schema: any, type: string): unknown[] {
+    const values: unknown[] = (schema.enum || []).filter((value: unknown) => value !== null);
+    const typed = values.filter(value => type === 'integer' ? typeof value === 'number' : typeof value === type);
+    return typed.length > 0 ? typed : values;
+  }
+
+  /**
+   * Zod refinements for the validation keywords of a string, number or array schema
+   */
+  protected getZodConstraints(schema: any, type: string | undefined): string {
+    const constraint = (name: keyof typeof SCHEMA_CONSTRAINTS, value?: unknown) =>
+      TemplateEngine.process(SCHEMA_CONSTRAINTS[name], { value: String(value) });
+    const constraints: string[] = [];
+
+    switch (type) {
+      case 'string': {
+        const format = SCHEMA_FORMAT_CONSTRAINTS[schema.format];
+        if (format) constraints.push(constraint(format));
+        if (schema.minLength !== undefined) constraints.push(constraint('minLength', schema.minLength));
+        if (schema.maxLength !== undefined) constraints.push(constraint('maxLength', schema.maxLength));
+        if (schema.pattern) {
+          constraints.push(TemplateEngine.process(SCHEMA_CONSTRAINTS.pattern, {
+            pattern: `new RegExp(${JSON.stringify(schema.pattern)})`
+          }));
+        }
+        break;
+      }
+      case 'integer':
+      case 'number':
+        if (type === 'integer') constraints.push(constraint('int'));
+        // OpenAPI 3.0 flags the bound as exclusive, 3.1 gives the exclusive bound directly
+        if (typeof schema.exclusiveMinimum === 'number') {
+          constraints.push(constraint('exclusiveMinimum', schema.exclusiveMinimum));
+        } else if (schema.minimum !== undefined) {
+          constraints.push(constraint(schema.exclusiveMinimum === true ? 'exclusiveMinimum' : 'minimum', schema.minimum));
+        }
+        if (typeof schema.exclusiveMaximum === 'number') {
+          constraints.push(constraint('exclusiveMaximum', schema.exclusiveMaximum));
+        } else if (schema.maximum !== undefined) {
+          constraints.push(constraint(schema.exclusiveMaximum === true ? 'exclusiveMaximum' : 'maximum', schema.maximum));
+        }
+        if (schema.multipleOf !== undefined) constraints.push(constraint('multipleOf', schema.multipleOf));
+        break;
+      case 'array':
+        if (schema.minItems !== undefined) constraints.push(constraint('minItems', schema.minItems));
+        if (schema.maxItems !== undefined) constraints.push(constraint('maxItems', schema.maxItems));
+        if (schema.uniqueItems) constraints.push(constraint('uniqueItems'));
+        break;
+    }
+
+    return constraints.join('');
+  }
+
+  protected isNullableSchema(schema: any): boolean {
+    if (!schema) {
+      return false;
+    }
+    return schema.nullable === true ||
+      this.getSchemaTypes(schema).includes('null') ||
+      (Array.isArray(schema.enum) && schema.enum.includes(null));
+  }
+
+  protected formatLiteral(value: unknown): string {
+    if (typeof value === 'string') {
+      return `'${value.replace(/'/g, "\\'")}'`;
+    }
+    if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return JSON.stringify(value);
+  }
+
+  // Component schemas referenced by name while building type expressions
+  protected referencedTypeNames: Set<string> = new Set();
+  private apiModel?: ApiModel;
+
   // Observer pattern support
   private observers: GeneratorObserver[] = [];
 
@@ -0,0 +1,735 @@
+/**
+ * API Model
+ * A normalized view of the (dereferenced) specification shared by every generator:
+ * operations grouped into services, their parameters and bodies, the named schemas
+ * and how each of them is used. Building it once keeps all outputs in agreement.
+ */
+import {
+  EndpointDefinition,
+  HttpMethod,
+  OpenApiSpec,
+  ParameterDefinition,
+  ParameterStyle,
+  SchemaDefinition,
+  SecurityRequirement
+} from '../types.js';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Schemas with these suffixes describe transport shapes rather than domain entities
+const NON_ENTITY_SUFFIXES = /(View|Input|Error|Errors|Request|Response)$/;
+
+// Envelope properties holding the page of a paginated response, in order of preference
+const PAGE_ITEMS_PROPERTIES = ['data', 'items', 'results', 'content', 'records'];
+
+// Everything else in an envelope is pagination metadata (Laravel, Spring, cursor-based...),
+// compared lowercase without separators
+const PAGINATION_PROPERTIES = new Set([
+  'meta', 'links', 'pagination', 'page', 'pages', 'perpage', 'pagesize', 'size', 'limit', 'offset',
+  'total', 'totalcount', 'totalpages', 'totalitems', 'totalelements', 'count', 'number', 'numberofelements',
+  'currentpage', 'lastpage', 'firstpageurl', 'lastpageurl', 'nextpageurl', 'prevpageurl', 'previouspageurl',
+  'next', 'nextpage', 'prev', 'previous', 'prevpage', 'previouspage', 'from', 'to', 'path',
+  'first', 'last', 'empty', 'sort', 'pageable', 'hasmore', 'hasnext', 'hasprevious',
+  'cursor', 'nextcursor', 'prevcursor', 'previouscursor'
+]);
+
+// Pagination metadata and query parameters by role, compared like PAGINATION_PROPERTIES
+const CURRENT_PAGE_PROPERTIES = ['currentpage', 'page'];
+const LAST_PAGE_PROPERTIES = ['lastpage', 'totalpages', 'pagecount'];
+const NEXT_PAGE_PROPERTIES = ['nextpage', 'nextpageurl', 'next'];
+const NEXT_CURSOR_PROPERTIES = ['nextcursor'];
+const PAGE_PARAMETERS = ['page', 'pagenumber'];
+const CURSOR_PARAMETERS = ['cursor', 'after', 'pagetoken'];
+
+// Plurals the suffix rules below get wrong
+const IRREGULAR_PLURALS: Record<string, string> = {
+  people: 'person',
+  children: 'child',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  geese: 'goose',
+  feet: 'foot',
+  teeth: 'tooth',
+  data: 'data',
+  media: 'media',
+  news: 'news',
+  series: 'series',
+  species: 'species'
+};
+
+export function singularize(word: string): string {
+  // The whole word or its last part in PascalCase (StaffPeople -> StaffPerson), keeping its casing
+  const irregular = word.match(/(?:^|[A-Z]|(?<=[-_]))[a-z]*$/)?.[0] ?? '';
+  const singular = IRREGULAR_PLURALS[irregular.toLowerCase()];
+  if (singular) {
+    const casing = irregular.charAt(0) === irregular.charAt(0).toUpperCase() ? singular.charAt(0).toUpperCase() : singular.charAt(0);
+    return word.slice(0, -irregular.length) + casing + singular.slice(1);
+  }
+  if (/(ss|us|is)$/i.test(word)) {
+    return word;
+  }
+  if (/ies$/i.test(word)) {
+    return word.slice(0, -3) + 'y';
+  }
+  if (/(ss|us|x|z|ch|sh)es$/i.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (/s$/i.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Returns the declared types of a schema as a list.
+ * OpenAPI 3.0 uses a single `type` string while OpenAPI 3.1 allows `type: ['string', 'null']`.
+ * When no type is declared it is inferred from the structural keywords.
+ */
+export function getSchemaTypes(schema: any): string[] {
+  if (!schema) {
+    return [];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type;
+  }
+  if (schema.type) {
+    return [schema.type];
+  }
+  if (schema.properties) {
+    return ['object'];
+  }
+  if (schema.items || schema.prefixItems) {
+    return ['array'];
+  }
+  if (schema.const !== undefined && schema.const !== null) {
+    return [typeof schema.const === 'object' ? 'object' : typeof schema.const];
+  }
+  // A typeless enum (`enum: [1, 2, 3]`) takes the types of its values
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const types = schema.enum.map((value: unknown) => {
+      if (value === null) {
+        return 'null';
+      }
+      if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+      }
+      return Array.isArray(value) ? 'array' : typeof value;
+    });
+    // Integers are numbers too when the values mix both
+    return Array.from(new Set<string>(types.includes('number') ? types.map((type: string) => type === 'integer' ? 'number' : type) : types));
+  }
+  return [];
+}
+
+export interface ApiParameter {
+  name: string;
+  identifier: string;        // Variable name in generated code (X-Tenant-Id -> xTenantId)
+  in: ParameterDefinition['in'];
+  required: boolean;
+  style: ParameterStyle;
+  explode: boolean;
+  schema: SchemaDefinition;
+  description?: string;
+}
+
+// How a body travels over the wire, derived from its media type
+export type ApiBodyKind = 'json' | 'multipart' | 'urlencoded' | 'raw';
+export type ApiResponseKind = 'json' | 'text' | 'binary';
+
+export interface ApiBody {
+  mediaType: string;
+  kind: ApiBodyKind;
+  schema: any;
+  schemaName: string | null;
+  required: boolean;
+}
+
+/**
+ * A response body listing items: a plain array, or a paginated envelope whose
+ * items sit in one array property next to the pagination metadata
+ */
+export interface ApiCollection {
+  kind: 'array' | 'paginated';
+  itemsProperty: string | null;      // Envelope property with the items, null for arrays
+  itemSchema: any;
+  itemSchemaName: string | null;
+}
+
+/**
+ * How the next page of a paginated collection is requested. Property paths point into the
+ * envelope without its items (`meta.current_page` for Laravel API resources).
+ */
+export interface ApiPagination {
+  kind: 'page' | 'cursor';
+  parameter: string;                 // Query parameter taking the page number or cursor
+  declared: boolean;                 // False when the spec leaves the parameter implicit
+  currentProperty: string | null;    // Current page number, for page pagination
+  lastProperty: string | null;       // Number of the last page
+  nextProperty: string | null;       // Next page (number or URL) or next cursor, empty on the last page
+}
+
+export interface ApiResponse {
+  statusCode: string;
+  description: string;
+  mediaType: string | null;
+  kind: ApiResponseKind;
+  schema: any | null;
+  schemaName: string | null;
+  collection: ApiCollection | null;
+}
+
+export interface ApiOperation {
+  name: string;              // Method name used by services and hooks
+  operationId?: string;      // As declared in the spec
+  serviceName: string;
+  tag: string;
+  method: HttpMethod;
+  path: string;
+  summary?: string;
+  description?: string;
+  parameters: ApiParameter[];
+  pathParameters: ApiParameter[];
+  queryParameters: ApiParameter[];
+  headerParameters: ApiParameter[];
+  cookieParameters: ApiParameter[];
+  requestBody: ApiBody | null;
+  responses: ApiResponse[];
+  successResponse: ApiResponse | null;
+  errorResponses: ApiResponse[];     // 4xx/5xx responses, including ranges (4XX) and `default`
+  pagination: ApiPagination | null;  // For GET operations returning a paginated envelope
+  // Alternative requirements, the operation's own or the spec-wide ones; null when neither is declared
+  security: SecurityRequirement[] | null;
+  endpoint: EndpointDefinition;
+}
+
+export interface ApiService {
+  name: string;
+  tag: string;
+  operations: ApiOperation[];
+}
+
+export interface ApiSchema {
+  name: string;
+  schema: SchemaDefinition;
+  isObject: boolean;
+  isUnion: boolean;
+  isEntity: boolean;
+  requestMethods: Set<HttpMethod>;   // Methods sending it as request body
+  responseMethods: Set<HttpMethod>;  // Methods returning it directly
+  listMethods: Set<HttpMethod>;      // Methods returning it as the element of a collection
+}
+
+export class ApiModel {
+  private schemasByName: Map<string, ApiSchema>;
+
+  constructor(
+    readonly spec: OpenApiSpec,
+    readonly services: ApiService[],
+    readonly schemas: ApiSchema[],
+    private schemaNames: Map<object, string>
+  ) {
+    this.schemasByName = new Map(schemas.map(schema => [schema.name, schema]));
+  }
+
+  get operations(): ApiOperation[] {
+    return this.services.flatMap(service => service.operations);
+  }
+
+  getService(name: string): ApiService | undefined {
+    return this.services.find(service => service.name === name);
+  }
+
+  getSchema(name: string): ApiSchema | undefined {
+    return this.schemasByName.get(name);
+  }
+
+  /**
+   * Component name of a schema object; the spec is dereferenced, so names are
+   * recovered from object identity with `components.schemas`
+   */
+  getSchemaName(schema: any): string | null {
+    if (!schema || typeof schema !== 'object') {
+      return null;
+    }
+    return this.schemaNames.get(schema) ?? null;
+  }
+
+  getEntitySchemas(): ApiSchema[] {
+    return this.schemas.filter(schema => schema.isEntity);
+  }
+
+  /**
+   * Object schemas that get a view class: the entities and whatever a GET returns
+   */
+  getViewSchemas(): ApiSchema[] {
+    const candidates = new Set([...this.getEntitySchemas(), ...this.getResponseSchemas('GET')]);
+    return Array.from(candidates).filter(({ name, isObject }) =>
+      isObject && !name.endsWith('View') && !name.includes('Error') && !name.startsWith('Paginated')
+    );
+  }
+
+  /**
+   * Schemas sent as request body by any of the given methods
+   */
+  getRequestSchemas(...methods: HttpMethod[]): ApiSchema[] {
+    return this.schemas.filter(schema => methods.some(method => schema.requestMethods.has(method)));
+  }
+
+  /**
+   * Schemas returned as the elements of a collection (array or paginated wrapper)
+   */
+  getCollectionSchemas(...methods: HttpMethod[]): ApiSchema[] {
+    return this.schemas.filter(schema => methods.some(method => schema.listMethods.has(method)));
+  }
+
+  /**
+   * Schemas returned, directly or as collection elements, by any of the given methods
+   */
+  getResponseSchemas(...methods: HttpMethod[]): ApiSchema[] {
+    return this.schemas.filter(schema =>
+      methods.some(method => schema.responseMethods.has(method) || schema.listMethods.has(method))
+    );
+  }
+}
+
+export class ApiModelBuilder {
+  private schemaNames = new Map<object, string>();
+
+  constructor(private spec: OpenApiSpec) {}
+
+  build(): ApiModel {
+    const componentSchemas = this.spec.components?.schemas || {};
+    Object.entries(componentSchemas).forEach(([name, schema]) => {
+      if (schema && typeof schema === 'object' && !this.schemaNames.has(schema)) {
+        this.schemaNames.set(schema, name);
+      }
+    });
+
+    const schemas = Object.entries(componentSchemas).map(([name, schema]) => this.buildSchema(name, schema));
+    const services = this.buildServices();
+    this.collectSchemaUsage(services, schemas);
+
+    return new ApiModel(this.spec, services, schemas, this.schemaNames);
+  }
+
+  private buildServices(): ApiService[] {
+    const services = new Map<string, ApiService>();
+
+    Object.entries(this.spec.paths || {}).forEach(([path, pathItem]) => {
+      const pathParameters: ParameterDefinition[] = pathItem?.parameters || [];
+
+      Object.keys(pathItem || {}).forEach(method => {
+        const httpMethod = method.toUpperCase() as HttpMethod;
+        const endpoint = HTTP_METHODS.includes(httpMethod) ? pathItem[method as Lowercase<HttpMethod>] : undefined;
+        if (!endpoint) {
+          return;
+        }
+
+        const tag = endpoint.tags?.[0] || 'Default';
+        const serviceName = `${tag}Service`;
+        if (!services.has(serviceName)) {
+          services.set(serviceName, { name: serviceName, tag, operations: [] });
+        }
+
+        services.get(serviceName)!.operations.push(
+          this.buildOperation(httpMethod, path, endpoint, serviceName, tag, pathParameters)
+        );
+      });
+    });
+
+    services.forEach(service => this.assertUniqueOperationNames(service));
+    return Array.from(services.values());
+  }
+
+  private buildOperation(
+    method: HttpMethod,
+    path: string,
+    endpoint: EndpointDefinition,
+    serviceName: string,
+    tag: string,
+    pathItemParameters: ParameterDefinition[]
+  ): ApiOperation {
+    const parameters = this.mergeParameters(pathItemParameters, endpoint.parameters || [])
+      .map(parameter => {
+        // Defaults from the OpenAPI specification: form for query and cookie, simple otherwise
+        const style = parameter.style || (parameter.in === 'query' || parameter.in === 'cookie' ? 'form' : 'simple');
+        return {
+          name: parameter.name,
+          identifier: this.getParameterIdentifier(parameter.name),
+          in: parameter.in,
+          // Path parameters are always required
+          required: parameter.in === 'path' || !!parameter.required,
+          style,
+          explode: parameter.explode ?? style === 'form',
+          schema: parameter.schema || {},
+          description: parameter.description
+        };
+      });
+
+    const responses = Object.entries(endpoint.responses || {}).map(([statusCode, response]) => {
+      const [mediaType, content] = this.selectContent(response?.content);
+      return {
+        statusCode,
+        description: response?.description || '',
+        mediaType,
+        kind: this.getResponseKind(mediaType, content?.schema),
+        schema: content?.schema ?? null,
+        schemaName: this.getSchemaName(content?.schema),
+        collection: this.getCollection(content?.schema)
+      };
+    });
+
+    // The first 2xx response that declares a body, falling back to the first 2xx
+    const successResponse = responses.find(response => /^2/.test(response.statusCode) && response.schema)
+      || responses.find(response => /^2/.test(response.statusCode))
+      || null;
+    const queryParameters = parameters.filter(parameter => parameter.in === 'query');
+
+    return {
+      name: this.getOperationName(method, path, endpoint, Boolean(successResponse?.collection)),
+      operationId: endpoint.operationId,
+      serviceName,
+      tag,
+      method,
+      path,
+      summary: endpoint.summary,
+      description: endpoint.description,
+      parameters,
+      pathParameters: parameters.filter(parameter => parameter.in === 'path'),
+      queryParameters,
+      headerParameters: parameters.filter(parameter => parameter.in === 'header'),
+      cookieParameters: parameters.filter(parameter => parameter.in === 'cookie'),
+      requestBody: this.buildRequestBody(endpoint),
+      responses,
+      successResponse,
+      errorResponses: responses.filter(response => !/^[123]/.test(response.statusCode)),
+      pagination: method === 'GET' ? this.getPagination(successResponse, queryParameters) : null,
+      security: endpoint.security ?? this.spec.security ?? null,
+      endpoint
+    };
+  }
+
+  private buildRequestBody(endpoint: EndpointDefinition): ApiBody | null {
+    const [mediaType, content] = this.selectContent(endpoint.requestBody?.content);
+    if (!mediaType || !content?.schema) {
+      return null;
+    }
+
+    return {
+      mediaType,
+      kind: this.getBodyKind(mediaType),
+      schema: content.schema,
+      schemaName: this.getSchemaName(content.schema),
+      required: endpoint.requestBody?.required ?? true
+    };
+  }
+
+  /**
+   * JSON content is preferred, then any other declared media type
+   */
+  private selectContent(content?: Record<string, any>): [string | null, any] {
+    const mediaTypes = Object.keys(content || {});
+    const mediaType = mediaTypes.find(type => type === 'application/json')
+      || mediaTypes.find(type => /\+json$/.test(type))
+      || mediaTypes[0];
+    return mediaType ? [mediaType, content![mediaType]] : [null, null];
+  }
+
+  private getBodyKind(mediaType: string): ApiBodyKind {
+    if (/json/.test(mediaType)) {
+      return 'json';
+    }
+    if (mediaType === 'multipart/form-data') {
+      return 'multipart';
+    }
+    return mediaType === 'application/x-www-form-urlencoded' ? 'urlencoded' : 'raw';
+  }
+
+  /**
+   * Anything that is neither JSON nor text (PDFs, images, octet streams) is downloaded as binary
+   */
+  private getResponseKind(mediaType: string | null, schema: any): ApiResponseKind {
+    if (!mediaType || /json/.test(mediaType)) {
+      return 'json';
+    }
+    return /^text\//.test(mediaType) && schema?.format !== 'binary' ? 'text' : 'binary';
+  }
+
+  /**
+   * Parameter names that are not valid identifiers (headers mostly) are camelCased
+   */
+  private getParameterIdentifier(name: string): string {
+    if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+      return name;
+    }
+    const identifier = this.toPascalCase(name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, ''));
+    const camelCase = identifier.charAt(0).toLowerCase() + identifier.slice(1);
+    return /^[0-9]/.test(camelCase) ? `_${camelCase}` : camelCase || 'parameter';
+  }
+
+  /**
+   * Operation parameters override path-level parameters with the same name and location
+   */
+  private mergeParameters(pathParameters: ParameterDefinition[], operationParameters: ParameterDefinition[]): ParameterDefinition[] {
+    const key = (parameter: ParameterDefinition) => `${parameter.in}:${parameter.name}`;
+    const overridden = new Set(operationParameters.map(key));
+    return [
+      ...pathParameters.filter(parameter => !overridden.has(key(parameter))),
+      ...operationParameters
+    ];
+  }
+
+  private buildSchema(name: string, schema: SchemaDefinition): ApiSchema {
+    const isUnion = !!(schema?.oneOf || schema?.anyOf);
+    const types = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+    const isObject = !isUnion && (types.includes('object') || (!schema?.type && !!schema?.properties) || !!schema?.allOf);
+
+    return {
+      name,
+      schema,
+      isObject,
+      isUnion,
+      isEntity: isObject && !NON_ENTITY_SUFFIXES.test(name) && !/Paginat/.test(name),
+      requestMethods: new Set(),
+      responseMethods: new Set(),
+      listMethods: new Set()
+    };
+  }
+
+  private collectSchemaUsage(services: ApiService[], schemas: ApiSchema[]): void {
+    const byName = new Map(schemas.map(schema => [schema.name, schema]));
+
+    services.forEach(service => service.operations.forEach(operation => {
+      if (operation.requestBody?.schemaName) {
+        byName.get(operation.requestBody.schemaName)?.requestMethods.add(operation.method);
+      }
+
+      const response = operation.successResponse;
+      if (!response?.schema) {
+        return;
+      }
+      if (response.schemaName) {
+        byName.get(response.schemaName)?.responseMethods.add(operation.method);
+      }
+
+      const elementName = response.collection?.itemSchemaName;
+      if (elementName) {
+        byName.get(elementName)?.listMethods.add(operation.method);
+      }
+    }));
+  }
+
+  /**
+   * Decided by the schema alone: arrays, and objects with an array property among
+   * PAGE_ITEMS_PROPERTIES besides pagination metadata only (following allOf, as in
+   * `allOf: [Pagination, { data: Club[] }]`), so `Order { id, items }` stays an object
+   */
+  private getCollection(schema: any): ApiCollection | null {
+    if (!schema || typeof schema !== 'object') {
+      return null;
+    }
+    if (getSchemaTypes(schema).includes('array')) {
+      return this.toCollection('array', null, schema.items);
+    }
+
+    const properties = this.getProperties(schema);
+    const itemsProperty = PAGE_ITEMS_PROPERTIES.find(name => getSchemaTypes(properties[name]).includes('array'));
+    const isEnvelope = !!itemsProperty && Object.keys(properties)
+      .filter(name => name !== itemsProperty)
+      .every(name => PAGINATION_PROPERTIES.has(name.replace(/[^A-Za-z]/g, '').toLowerCase()));
+    return isEnvelope ? this.toCollection('paginated', itemsProperty!, properties[itemsProperty!].items) : null;
+  }
+
+  /**
+   * Cursor pagination when the metadata holds a next cursor, otherwise page numbers when it
+   * holds the current page along with the last or next one. The parameter defaults to
+   * `cursor` / `page` when the operation does not declare one.
+   */
+  private getPagination(response: ApiResponse | null, queryParameters: ApiParameter[]): ApiPagination | null {
+    const collection = response?.collection;
+    if (collection?.kind !== 'paginated') {
+      return null;
+    }
+
+    const metadata = this.getMetadataProperties(response!.schema, collection.itemsProperty!);
+    const find = (names: string[], type?: string) => metadata.find(property => names.includes(property.key)
+      && (!type || getSchemaTypes(property.schema).some(candidate => candidate === type || candidate === 'number')))?.path ?? null;
+    const findParameter = (names: string[]) => queryParameters
+      .find(parameter => names.includes(parameter.name.replace(/[^A-Za-z]/g, '').toLowerCase()));
+
+    const nextCursor = find(NEXT_CURSOR_PROPERTIES);
+    if (nextCursor) {
+      const parameter = findParameter(CURSOR_PARAMETERS);
+      return {
+        kind: 'cursor',
+        parameter: parameter?.name ?? 'cursor',
+        declared: !!parameter,
+        currentProperty: null,
+        lastProperty: null,
+        nextProperty: nextCursor
+      };
+    }
+
+    const currentProperty = find(CURRENT_PAGE_PROPERTIES, 'integer');
+    const lastProperty = find(LAST_PAGE_PROPERTIES, 'integer');
+    const nextProperty = find(NEXT_PAGE_PROPERTIES);
+    if (!currentProperty || (!lastProperty && !nextProperty)) {
+      return null;
+    }
+    const parameter = findParameter(PAGE_PARAMETERS);
+    return {
+      kind: 'page',
+      parameter: parameter?.name ?? 'page',
+      declared: !!parameter,
+      currentProperty,
+      lastProperty,
+      nextProperty: lastProperty ? null : nextProperty
+    };
+  }
+
+  /**
+   * Envelope properties besides the items, then those nested one level down (`meta`, `links`)
+   */
+  private getMetadataProperties(schema: any, itemsProperty: string): Array<{ path: string; key: string; schema: any }> {
+    const toKey = (name: string) => name.replace(/[^A-Za-z]/g, '').toLowerCase();
+    const properties = Object.entries(this.getProperties(schema)).filter(([name]) => name !== itemsProperty);
+    const nested = properties.flatMap(([name, property]) => Object.entries(this.getProperties(property))
+      .map(([child, childSchema]) => ({ path: `${name}.${child}`, key: toKey(child), schema: childSchema })));
+    return [
+      ...properties.map(([name, property]) => ({ path: name, key: toKey(name), schema: property })),
+      ...nested
+    ];
+  }
+
+  private toCollection(kind: ApiCollection['kind'], itemsProperty: string | null, itemSchema: any): ApiCollection {
+    return {
+      kind,
+      itemsProperty,
+      itemSchema: itemSchema || {},
+      itemSchemaName: this.getSchemaName(itemSchema)
+    };
+  }
+
+  private getProperties(schema: any): Record<string, any> {
+    if (!schema || typeof schema !== 'object') {
+      return {};
+    }
+    const inherited = (schema.allOf || []).reduce(
+      (properties: Record<string, any>, member: any) => ({ ...properties, ...this.getProperties(member) }),
+      {}
+    );
+    return { ...inherited, ...(schema.properties || {}) };
+  }
+
+  private getSchemaName(schema: any): string | null {
+    if (!schema || typeof schema !== 'object') {
+      return null;
+    }
+    if (schema.$ref) {
+      return schema.$ref.split('/').pop() || null;
+    }
+    return this.schemaNames.get(schema) ?? null;
+  }
+
+  /**
+   * Method name for an operation: the spec's operationId in camelCase when present,
+   * otherwise a name derived from the HTTP method and the path
+   */
+  private getOperationName(method: string, path: string, endpoint: EndpointDefinition, isCollection: boolean): string {
+    const operationId = endpoint.operationId?.trim();
+    if (operationId) {
+      return this.sanitizeOperationId(operationId);
+    }
+    return this.generateOperationName(method, path, isCollection);
+  }
+
+  private sanitizeOperationId(operationId: string): string {
+    const words = operationId
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean);
+    const name = words
+      .map((word, index) => index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+    // Identifiers cannot start with a digit
+    return /^[0-9]/.test(name) ? `_${name}` : name || 'operation';
+  }
+
+  /**
+   * Fallback naming: `list` for GETs responding with a collection, `get`/`create`/`update`/`patch`/`delete`
+   * plus the singular resource otherwise, prefixed with the parent resources of nested paths
+   * (GET /clubs/{clubId}/members -> listClubMembers, GET /clubs/{clubId} -> getClub,
+   * GET /licenses/{id}/document -> getLicenseDocument). A collection below another one is named
+   * after it (GET /clubs/all -> listAllClubs)
+   */
+  private generateOperationName(method: string, path: string, isCollection: boolean): string {
+    const segments = path.split('/').filter(segment => segment.length > 0);
+    const isParameter = (segment: string | undefined) => /^{[^}]+}$/.test(segment || '');
+    const isItemPath = isParameter(segments[segments.length - 1]);
+    const resources = segments
+      .filter(segment => !isParameter(segment))
+      .map(segment => this.toPascalCase(segment.replace(/[^A-Za-z0-9_-]/g, '')));
+
+    if (resources.length === 0) {
+      resources.push('Root');
+    }
+
+    const parents = resources.slice(0, -1).map(resource => singularize(resource)).join('');
+    const resource = resources[resources.length - 1];
+    const singular = `${parents}${singularize(resource)}`;
+    const verb = method.toLowerCase();
+
+    // A word that is no plural right after a collection qualifies it: all, featured, recent...
+    const qualifiesParent = segments.length > 1 && !isItemPath && !isParameter(segments[segments.length - 2])
+      && singularize(resource) === resource;
+    if (verb === 'get' && isCollection && qualifiesParent) {
+      const grandparents = resources.slice(0, -2).map(parent => singularize(parent)).join('');
+      return `list${resource}${grandparents}${resources[resources.length - 2]}`;
+    }
+
+    switch (verb) {
+      case 'get':
+        if (isCollection) {
+          return `list${parents}${resource}`;
+        }
+        return isItemPath ? `get${singular}` : `get${parents}${resource}`;
+      case 'post':
+        return `create${singular}`;
+      case 'put':
+        return `update${singular}`;
+      case 'patch':
+        return `patch${singular}`;
+      case 'delete':
+        return `delete${singular}`;
+      default:
+        return `${verb}${parents}${resource}`;
+    }
+  }
+
+  private toPascalCase(str: string): string {
+    return str
+      .replace(/[-_](.)/g, (_, char) => char.toUpperCase())
+      .replace(/^./, char => char.toUpperCase());
+  }
+
+  /**
+   * Two operations of one service cannot share a method name
+   */
+  private assertUniqueOperationNames(service: ApiService): void {
+    const byName = new Map<string, string[]>();
+    service.operations.forEach(({ name, method, path }) => {
+      byName.set(name, [...(byName.get(name) || []), `${method} ${path}`]);
+    });
+
+    const duplicates = Array.from(byName.entries()).filter(([, endpoints]) => endpoints.length > 1);
+    if (duplicates.length > 0) {
+      const details = duplicates
+        .map(([name, endpoints]) => `  ${name}: ${endpoints.join(', ')}`)
+        .join('\n');
+      throw new Error(`Duplicate method names in ${service.name}:\n${details}\nSet a unique operationId on these operations.`);
+    }
+  }
+}
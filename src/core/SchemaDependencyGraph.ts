@@ -0,0 +1,139 @@
+/**
+ * Schema Dependency Graph
+ * Tracks which named component schemas reference each other so generated files can
+ * import what they use, be declared in dependency order and break reference cycles
+ */
+
+export type SchemaNameResolver = (schema: any) => string | null;
+
+// Keywords whose values are nested schemas
+const SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not'];
+const SCHEMA_LIST_KEYWORDS = ['prefixItems', 'allOf', 'oneOf', 'anyOf'];
+
+export class SchemaDependencyGraph {
+  private dependencies = new Map<string, Set<string>>();
+  private components = new Map<string, number>();
+  private cyclic = new Set<string>();
+  private order: string[] = [];
+
+  constructor(schemas: Record<string, any>, private resolveName: SchemaNameResolver) {
+    Object.entries(schemas).forEach(([name, schema]) => {
+      const dependencies = new Set<string>();
+      this.collectDependencies(schema, dependencies, new Set(), true);
+      this.dependencies.set(name, dependencies);
+    });
+    this.computeComponents();
+  }
+
+  /**
+   * Named schemas referenced directly by the given schema
+   */
+  getDependencies(name: string): string[] {
+    return Array.from(this.dependencies.get(name) || []);
+  }
+
+  /**
+   * Schema names ordered so every schema comes after the schemas it depends on
+   * (members of a cycle are kept together)
+   */
+  getDeclarationOrder(): string[] {
+    return [...this.order];
+  }
+
+  /**
+   * Whether the schema takes part in a reference cycle, including self references
+   */
+  isCyclic(name: string): boolean {
+    return this.cyclic.has(name);
+  }
+
+  /**
+   * A reference must be lazy when the target is not fully declared yet, i.e. when
+   * both schemas belong to the same cycle
+   */
+  isLazyReference(from: string, to: string): boolean {
+    return this.isCyclic(to) && this.components.get(from) === this.components.get(to);
+  }
+
+  private collectDependencies(schema: any, dependencies: Set<string>, visited: Set<object>, isRoot = false): void {
+    if (!schema || typeof schema !== 'object') {
+      return;
+    }
+
+    const name = isRoot ? null : this.resolveName(schema);
+    if (name) {
+      dependencies.add(name);
+      return;
+    }
+    if (visited.has(schema)) {
+      return;
+    }
+    visited.add(schema);
+
+    Object.values(schema.properties || {}).forEach(property =>
+      this.collectDependencies(property, dependencies, visited)
+    );
+    SCHEMA_KEYWORDS.forEach(keyword =>
+      this.collectDependencies(schema[keyword], dependencies, visited)
+    );
+    SCHEMA_LIST_KEYWORDS.forEach(keyword =>
+      (schema[keyword] || []).forEach((member: any) => this.collectDependencies(member, dependencies, visited))
+    );
+  }
+
+  /**
+   * Tarjan's strongly connected components; components are emitted dependencies first,
+   * which is exactly the declaration order
+   */
+  private computeComponents(): void {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let index = 0;
+    let componentId = 0;
+
+    const visit = (name: string) => {
+      indices.set(name, index);
+      lowLinks.set(name, index);
+      index++;
+      stack.push(name);
+      onStack.add(name);
+
+      this.getDependencies(name).forEach(dependency => {
+        if (!this.dependencies.has(dependency)) {
+          return;
+        }
+        if (!indices.has(dependency)) {
+          visit(dependency);
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(dependency)!));
+        } else if (onStack.has(dependency)) {
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(dependency)!));
+        }
+      });
+
+      if (lowLinks.get(name) === indices.get(name)) {
+        const members: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          members.push(member);
+          this.components.set(member, componentId);
+        } while (member !== name);
+
+        if (members.length > 1 || this.dependencies.get(name)!.has(name)) {
+          members.forEach(cyclicMember => this.cyclic.add(cyclicMember));
+        }
+        this.order.push(...members.reverse());
+        componentId++;
+      }
+    };
+
+    this.dependencies.forEach((_, name) => {
+      if (!indices.has(name)) {
+        visit(name);
+      }
+    });
+  }
+}
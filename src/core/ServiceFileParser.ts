@@ -0,0 +1,191 @@
+/**
+ * Service File Parser
+ * Reads the public surface of service modules (generated or hand-written) with the
+ * TypeScript compiler API, so hooks can be generated for services the spec does not describe
+ */
+import ts from 'typescript';
+
+export interface ParsedServiceParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+export interface ParsedServiceMethod {
+  name: string;
+  parameters: ParsedServiceParameter[];
+  returnType: string | null;
+  isStatic: boolean;
+}
+
+export interface ParsedService {
+  name: string;
+  // Exported identifier the methods are called on: the singleton instance, or the class for static methods.
+  // Both are null for modules of standalone functions, which are called directly
+  instanceName: string | null;
+  className: string | null;
+  filePath: string;
+  methods: ParsedServiceMethod[];
+}
+
+export class ServiceFileParser {
+  /**
+   * Exported service classes (with their exported instance, if any) and exported
+   * object literals of functions found in a module; a module with neither is read
+   * as a function-style service named after the file
+   */
+  static parse(filePath: string, source: string): ParsedService[] {
+    const sourceFile = ts.createSourceFile(filePath, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const classes: ParsedService[] = [];
+    const objects: ParsedService[] = [];
+    const instances = new Map<string, string>();
+    const functions: ParsedServiceMethod[] = [];
+
+    sourceFile.statements.forEach(statement => {
+      if (ts.isClassDeclaration(statement) && statement.name && this.isExported(statement)) {
+        classes.push({
+          name: statement.name.text,
+          instanceName: null,
+          className: statement.name.text,
+          filePath,
+          methods: this.getClassMethods(statement, sourceFile)
+        });
+        return;
+      }
+
+      if (ts.isFunctionDeclaration(statement) && statement.name && this.isExported(statement)) {
+        functions.push(this.toMethod(statement.name.text, statement, sourceFile, false));
+        return;
+      }
+
+      if (!ts.isVariableStatement(statement) || !this.isExported(statement)) {
+        return;
+      }
+
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+          return;
+        }
+
+        const initializer = declaration.initializer;
+        if (ts.isNewExpression(initializer) && ts.isIdentifier(initializer.expression)) {
+          instances.set(initializer.expression.text, declaration.name.text);
+        } else if (this.isFunction(initializer)) {
+          functions.push(this.toMethod(declaration.name.text, initializer, sourceFile, false));
+        } else if (ts.isObjectLiteralExpression(initializer)) {
+          const variableName = declaration.name.text;
+          objects.push({
+            name: variableName.charAt(0).toUpperCase() + variableName.slice(1),
+            instanceName: variableName,
+            className: null,
+            filePath,
+            methods: this.getObjectMethods(initializer, sourceFile)
+          });
+        }
+      });
+    });
+
+    classes.forEach(service => {
+      service.instanceName = instances.get(service.name) ?? null;
+    });
+
+    const services = [...classes, ...objects].filter(service => service.methods.length > 0);
+    if (services.length > 0 || functions.length === 0) {
+      return services;
+    }
+
+    return [{
+      name: this.getModuleName(filePath),
+      instanceName: null,
+      className: null,
+      filePath,
+      methods: functions
+    }];
+  }
+
+  /**
+   * reports-service.ts -> ReportsService
+   */
+  private static getModuleName(filePath: string): string {
+    const baseName = filePath.split(/[\\/]/).pop()!.replace(/\.tsx?$/, '');
+    return baseName
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+
+  private static getClassMethods(declaration: ts.ClassDeclaration, sourceFile: ts.SourceFile): ParsedServiceMethod[] {
+    const methods: ParsedServiceMethod[] = [];
+
+    declaration.members.forEach(member => {
+      if (!member.name || !ts.isIdentifier(member.name) || !this.isPublic(member)) {
+        return;
+      }
+
+      const isStatic = this.hasModifier(member, ts.SyntaxKind.StaticKeyword);
+      if (ts.isMethodDeclaration(member)) {
+        methods.push(this.toMethod(member.name.text, member, sourceFile, isStatic));
+      } else if (ts.isPropertyDeclaration(member) && member.initializer && this.isFunction(member.initializer)) {
+        methods.push(this.toMethod(member.name.text, member.initializer, sourceFile, isStatic));
+      }
+    });
+
+    return methods;
+  }
+
+  private static getObjectMethods(literal: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile): ParsedServiceMethod[] {
+    const methods: ParsedServiceMethod[] = [];
+
+    literal.properties.forEach(property => {
+      if (!property.name || !ts.isIdentifier(property.name)) {
+        return;
+      }
+
+      if (ts.isMethodDeclaration(property)) {
+        methods.push(this.toMethod(property.name.text, property, sourceFile, false));
+      } else if (ts.isPropertyAssignment(property) && this.isFunction(property.initializer)) {
+        methods.push(this.toMethod(property.name.text, property.initializer, sourceFile, false));
+      }
+    });
+
+    return methods;
+  }
+
+  private static toMethod(
+    name: string,
+    declaration: ts.SignatureDeclarationBase,
+    sourceFile: ts.SourceFile,
+    isStatic: boolean
+  ): ParsedServiceMethod {
+    return {
+      name,
+      parameters: declaration.parameters.map((parameter, index) => ({
+        // Destructured parameters get a positional name
+        name: ts.isIdentifier(parameter.name) ? parameter.name.text : `arg${index}`,
+        type: parameter.type ? parameter.type.getText(sourceFile) : 'any',
+        optional: !!parameter.questionToken || !!parameter.initializer
+      })),
+      returnType: declaration.type ? declaration.type.getText(sourceFile) : null,
+      isStatic
+    };
+  }
+
+  private static isFunction(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+  }
+
+  private static isExported(node: ts.Declaration | ts.VariableStatement): boolean {
+    return (ts.getCombinedModifierFlags(node as ts.Declaration) & ts.ModifierFlags.Export) !== 0;
+  }
+
+  private static isPublic(member: ts.ClassElement): boolean {
+    return !this.hasModifier(member, ts.SyntaxKind.PrivateKeyword)
+      && !this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword)
+      && !(member.name && ts.isPrivateIdentifier(member.name));
+  }
+
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+  }
+}
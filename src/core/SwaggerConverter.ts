@@ -0,0 +1,389 @@
+/**
+ * Swagger 2.0 to OpenAPI 3 Converter
+ * Upgrades legacy Swagger documents so every generator can rely on the OpenAPI 3 structure
+ */
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+
+type SwaggerObject = Record<string, any>;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const REF_PREFIXES: Record<string, string> = {
+  '#/definitions/': '#/components/schemas/',
+  '#/parameters/': '#/components/parameters/',
+  '#/responses/': '#/components/responses/'
+};
+
+// Schema-level keywords that Swagger 2.0 puts directly on non-body parameters
+const PARAMETER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+  'uniqueItems', 'multipleOf'
+];
+
+export class SwaggerConverter {
+  static isSwagger2(document: SwaggerObject): document is OpenAPIV2.Document {
+    return typeof document?.swagger === 'string' && document.swagger.startsWith('2.');
+  }
+
+  /**
+   * Convert a Swagger 2.0 document (with internal $refs) into an OpenAPI 3.0 document
+   */
+  static convert(document: SwaggerObject): OpenAPIV3.Document {
+    const swagger = this.rewriteRefs(JSON.parse(JSON.stringify(document)));
+    const globalConsumes: string[] = swagger.consumes || ['application/json'];
+    const globalProduces: string[] = swagger.produces || ['application/json'];
+
+    const components: SwaggerObject = {
+      schemas: this.mapValues(swagger.definitions, schema => this.convertSchema(schema))
+    };
+
+    const globalParameters = swagger.parameters || {};
+    const nonBodyParameters = Object.entries(globalParameters)
+      .filter(([, parameter]: [string, any]) => parameter.in !== 'body' && parameter.in !== 'formData');
+    if (nonBodyParameters.length > 0) {
+      components.parameters = Object.fromEntries(
+        nonBodyParameters.map(([name, parameter]) => [name, this.convertParameter(parameter as SwaggerObject)])
+      );
+    }
+
+    if (swagger.responses) {
+      components.responses = this.mapValues(swagger.responses, response =>
+        this.convertResponse(response, globalProduces)
+      );
+    }
+
+    if (swagger.securityDefinitions) {
+      components.securitySchemes = this.mapValues(swagger.securityDefinitions, definition =>
+        this.convertSecurityDefinition(definition)
+      );
+    }
+
+    const paths: SwaggerObject = {};
+    Object.entries(swagger.paths || {}).forEach(([path, pathItem]: [string, any]) => {
+      const convertedPathItem: SwaggerObject = {};
+
+      HTTP_METHODS.forEach(method => {
+        const operation = pathItem[method];
+        if (!operation) {
+          return;
+        }
+
+        const parameters = this.mergeParameters(pathItem.parameters || [], operation.parameters || [])
+          .map(parameter => this.resolveParameter(parameter, globalParameters));
+
+        convertedPathItem[method] = this.convertOperation(
+          operation,
+          parameters,
+          operation.consumes || globalConsumes,
+          operation.produces || globalProduces
+        );
+      });
+
+      paths[path] = convertedPathItem;
+    });
+
+    const converted: SwaggerObject = {
+      openapi: '3.0.3',
+      info: swagger.info,
+      servers: this.convertServers(swagger),
+      paths,
+      components
+    };
+
+    if (swagger.tags) converted.tags = swagger.tags;
+    if (swagger.security) converted.security = swagger.security;
+    if (swagger.externalDocs) converted.externalDocs = swagger.externalDocs;
+
+    return converted as OpenAPIV3.Document;
+  }
+
+  private static convertServers(swagger: SwaggerObject): { url: string }[] {
+    const basePath = swagger.basePath || '';
+    if (!swagger.host) {
+      return [{ url: basePath || '/' }];
+    }
+
+    const schemes: string[] = swagger.schemes || ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${swagger.host}${basePath}` }));
+  }
+
+  private static convertOperation(
+    operation: SwaggerObject,
+    parameters: SwaggerObject[],
+    consumes: string[],
+    produces: string[]
+  ): SwaggerObject {
+    const {
+      parameters: _parameters,
+      responses,
+      consumes: _consumes,
+      produces: _produces,
+      schemes: _schemes,
+      ...rest
+    } = operation;
+
+    const converted: SwaggerObject = { ...rest };
+
+    const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+    const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+    const otherParameters = parameters.filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData');
+
+    if (otherParameters.length > 0) {
+      converted.parameters = otherParameters.map(parameter =>
+        parameter.$ref ? parameter : this.convertParameter(parameter)
+      );
+    }
+
+    if (bodyParameter) {
+      converted.requestBody = this.convertBodyParameter(bodyParameter, consumes);
+    } else if (formParameters.length > 0) {
+      converted.requestBody = this.convertFormParameters(formParameters, consumes);
+    }
+
+    converted.responses = this.mapValues(responses || {}, response =>
+      this.convertResponse(response, produces)
+    );
+
+    return converted;
+  }
+
+  private static convertParameter(parameter: SwaggerObject): SwaggerObject {
+    const schema: SwaggerObject = {};
+    const converted: SwaggerObject = {};
+
+    Object.entries(parameter).forEach(([key, value]) => {
+      if (PARAMETER_SCHEMA_KEYS.includes(key)) {
+        schema[key] = value;
+      } else if (key !== 'collectionFormat' && key !== 'allowEmptyValue') {
+        converted[key] = value;
+      }
+    });
+
+    converted.schema = this.convertSchema(schema);
+
+    // collectionFormat maps onto the OpenAPI 3 serialization styles
+    switch (parameter.collectionFormat) {
+      case 'multi':
+        converted.style = 'form';
+        converted.explode = true;
+        break;
+      case 'ssv':
+        converted.style = 'spaceDelimited';
+        converted.explode = false;
+        break;
+      case 'pipes':
+        converted.style = 'pipeDelimited';
+        converted.explode = false;
+        break;
+      case 'csv':
+        converted.style = parameter.in === 'query' ? 'form' : 'simple';
+        converted.explode = false;
+        break;
+    }
+
+    return converted;
+  }
+
+  private static convertBodyParameter(parameter: SwaggerObject, consumes: string[]): SwaggerObject {
+    const mediaTypes = consumes.filter(mediaType =>
+      mediaType !== 'multipart/form-data' && mediaType !== 'application/x-www-form-urlencoded'
+    );
+    const schema = this.convertSchema(parameter.schema || {});
+
+    return {
+      ...(parameter.description ? { description: parameter.description } : {}),
+      required: parameter.required ?? false,
+      content: Object.fromEntries(
+        (mediaTypes.length > 0 ? mediaTypes : ['application/json']).map(mediaType => [mediaType, { schema }])
+      )
+    };
+  }
+
+  private static convertFormParameters(parameters: SwaggerObject[], consumes: string[]): SwaggerObject {
+    const hasFile = parameters.some(parameter => parameter.type === 'file');
+    const mediaType = hasFile || consumes.includes('multipart/form-data')
+      ? 'multipart/form-data'
+      : 'application/x-www-form-urlencoded';
+
+    const properties: SwaggerObject = {};
+    const required: string[] = [];
+
+    parameters.forEach(parameter => {
+      const { schema } = this.convertParameter(parameter);
+      if (parameter.description) {
+        schema.description = parameter.description;
+      }
+      properties[parameter.name] = schema;
+      if (parameter.required) {
+        required.push(parameter.name);
+      }
+    });
+
+    return {
+      required: required.length > 0,
+      content: {
+        [mediaType]: {
+          schema: {
+            type: 'object',
+            properties,
+            ...(required.length > 0 ? { required } : {})
+          }
+        }
+      }
+    };
+  }
+
+  private static convertResponse(response: SwaggerObject, produces: string[]): SwaggerObject {
+    if (response.$ref) {
+      return response;
+    }
+
+    const { schema, examples: _examples, headers, ...rest } = response;
+    const converted: SwaggerObject = { description: '', ...rest };
+
+    if (headers) {
+      converted.headers = this.mapValues(headers, header => {
+        const { description, ...headerSchema } = header;
+        return { ...(description ? { description } : {}), schema: this.convertSchema(headerSchema) };
+      });
+    }
+
+    if (schema) {
+      const convertedSchema = this.convertSchema(schema);
+      converted.content = Object.fromEntries(
+        produces.map(mediaType => [mediaType, { schema: convertedSchema }])
+      );
+    }
+
+    return converted;
+  }
+
+  private static convertSecurityDefinition(definition: SwaggerObject): SwaggerObject {
+    switch (definition.type) {
+      case 'basic':
+        return { type: 'http', scheme: 'basic', description: definition.description };
+      case 'apiKey':
+        return { type: 'apiKey', name: definition.name, in: definition.in, description: definition.description };
+      case 'oauth2': {
+        const flowNames: Record<string, string> = {
+          implicit: 'implicit',
+          password: 'password',
+          application: 'clientCredentials',
+          accessCode: 'authorizationCode'
+        };
+        const flow: SwaggerObject = { scopes: definition.scopes || {} };
+        if (definition.authorizationUrl) flow.authorizationUrl = definition.authorizationUrl;
+        if (definition.tokenUrl) flow.tokenUrl = definition.tokenUrl;
+
+        return {
+          type: 'oauth2',
+          description: definition.description,
+          flows: { [flowNames[definition.flow] || definition.flow]: flow }
+        };
+      }
+      default:
+        return definition;
+    }
+  }
+
+  /**
+   * Convert Swagger-only schema keywords (file type, x-nullable, string discriminator)
+   */
+  private static convertSchema(schema: SwaggerObject): SwaggerObject {
+    if (!schema || typeof schema !== 'object' || schema.$ref) {
+      return schema;
+    }
+
+    const converted: SwaggerObject = { ...schema };
+
+    if (converted.type === 'file') {
+      converted.type = 'string';
+      converted.format = 'binary';
+    }
+
+    if (converted['x-nullable'] !== undefined) {
+      converted.nullable = converted['x-nullable'];
+      delete converted['x-nullable'];
+    }
+
+    if (typeof converted.discriminator === 'string') {
+      converted.discriminator = { propertyName: converted.discriminator };
+    }
+
+    if (converted.items) {
+      converted.items = this.convertSchema(converted.items);
+    }
+    if (converted.properties) {
+      converted.properties = this.mapValues(converted.properties, property => this.convertSchema(property));
+    }
+    if (converted.additionalProperties && typeof converted.additionalProperties === 'object') {
+      converted.additionalProperties = this.convertSchema(converted.additionalProperties);
+    }
+    if (converted.allOf) {
+      converted.allOf = converted.allOf.map((member: SwaggerObject) => this.convertSchema(member));
+    }
+
+    return converted;
+  }
+
+  /**
+   * Operation parameters override path-level parameters with the same name and location
+   */
+  private static mergeParameters(pathParameters: SwaggerObject[], operationParameters: SwaggerObject[]): SwaggerObject[] {
+    const key = (parameter: SwaggerObject) => parameter.$ref || `${parameter.in}:${parameter.name}`;
+    const overridden = new Set(operationParameters.map(key));
+
+    return [
+      ...pathParameters.filter(parameter => !overridden.has(key(parameter))),
+      ...operationParameters
+    ];
+  }
+
+  /**
+   * Body and formData parameters cannot stay as component references in OpenAPI 3,
+   * so references to them are inlined
+   */
+  private static resolveParameter(parameter: SwaggerObject, globalParameters: SwaggerObject): SwaggerObject {
+    if (!parameter.$ref) {
+      return parameter;
+    }
+
+    const name = parameter.$ref.replace('#/components/parameters/', '');
+    const resolved = globalParameters[name];
+    if (resolved && (resolved.in === 'body' || resolved.in === 'formData')) {
+      return resolved;
+    }
+    return parameter;
+  }
+
+  private static rewriteRefs<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.rewriteRefs(item)) as unknown as T;
+    }
+
+    if (value && typeof value === 'object') {
+      const result: SwaggerObject = {};
+      Object.entries(value as SwaggerObject).forEach(([key, child]) => {
+        if (key === '$ref' && typeof child === 'string') {
+          const prefix = Object.keys(REF_PREFIXES).find(candidate => child.startsWith(candidate));
+          result[key] = prefix ? child.replace(prefix, REF_PREFIXES[prefix]) : child;
+        } else {
+          result[key] = this.rewriteRefs(child);
+        }
+      });
+      return result as T;
+    }
+
+    return value;
+  }
+
+  private static mapValues(
+    source: SwaggerObject | undefined,
+    mapper: (value: any) => any
+  ): SwaggerObject {
+    return Object.fromEntries(
+      Object.entries(source || {}).map(([key, value]) => [key, mapper(value)])
+    );
+  }
+}
@@ -13,7 +13,7 @@ import {
   LIST_IMPORTS_TEMPLATE,
   LIST_INDEX_TEMPLATE 
 } from '../templates/list.template.js';
-import { CREATE_FORM_TEMPLATE, EDIT_FORM_TEMPLATE, FORM_FIELD_TEMPLATE } from '../templates/form.template.js';
+import { CREATE_FORM_TEMPLATE, EDIT_FORM_TEMPLATE, FORM_FIELD_TEMPLATE, FILE_FIELD_TEMPLATE } from '../templates/form.template.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -53,76 +53,17 @@ export class ComponentsGenerator extends BaseGenerator {
   }  generate(): Map<string, string> {
     console.log("Scanning OpenAPI paths for components generation...");
 
-    // Collect all GET method responses for list generation
-    const getAllGetResponseSchemas = (): Set<string> => {
-      const schemas = new Set<string>();
-      Object.entries(this.spec.paths || {}).forEach(([path, methods]) => {
-        Object.entries(methods || {}).forEach(([method, endpoint]) => {
-          if (method.toUpperCase() === 'GET') {
-            const successResponse = endpoint.responses?.['200'] || endpoint.responses?.['201'];
-            if (successResponse?.content?.['application/json']?.schema) {
-              const schema = successResponse.content['application/json'].schema;
-              
-              // Handle direct schema references
-              if ('$ref' in schema) {
-                const schemaName = this.extractNameFromRef(schema.$ref);
-                schemas.add(schemaName);
-                console.log(`Found GET response schema: ${schemaName} for path ${path}`);
-              }              // Handle arrays of items (e.g., array responses)
-              else if (schema.type === 'array' && schema.items && '$ref' in schema.items) {
-                const schemaName = this.extractNameFromRef((schema.items as SchemaReference).$ref);
-                schemas.add(schemaName);
-                console.log(`Found GET array response schema: ${schemaName} for path ${path}`);
-              }
-              // Handle inline schemas with properties
-              else if (schema.properties && schema.properties.items && '$ref' in schema.properties.items) {
-                const schemaName = this.extractNameFromRef((schema.properties.items as SchemaReference).$ref);
-                schemas.add(schemaName);
-                console.log(`Found GET nested response schema: ${schemaName} for path ${path}`);
-              }
-            }
-          }
-        });
-      });
-      return schemas;
-    };
+    // Schema roles come from the shared API model so components agree with the other outputs
+    const model = this.getApiModel();
+    const schemaNames = (schemas: { name: string }[]) => new Set(schemas.map(schema => schema.name));
 
-    // Get all relevant schemas for generation
-    const getResponseSchemas = getAllGetResponseSchemas();
-    const postRequestSchemas = new Set<string>();
-    const putPatchRequestSchemas = new Set<string>();
-    const entitySchemas = new Set<string>();
-
-    // Collect POST and PUT/PATCH schemas for forms
-    Object.entries(this.spec.paths || {}).forEach(([path, methods]) => {
-      Object.entries(methods || {}).forEach(([method, endpoint]) => {
-        if (method.toUpperCase() === 'POST' && endpoint.requestBody?.content?.['application/json']?.schema) {
-          const schema = endpoint.requestBody.content['application/json'].schema;
-          if ('$ref' in schema) {
-            const schemaName = this.extractNameFromRef(schema.$ref);
-            postRequestSchemas.add(schemaName);
-          }
-        } else if (['PUT', 'PATCH'].includes(method.toUpperCase()) && endpoint.requestBody?.content?.['application/json']?.schema) {
-          const schema = endpoint.requestBody.content['application/json'].schema;
-          if ('$ref' in schema) {
-            const schemaName = this.extractNameFromRef(schema.$ref);
-            putPatchRequestSchemas.add(schemaName);
-          }
-        }
-      });
-    });
-
-    // Collect entity schemas for card generation
-    Object.entries(this.spec.components.schemas || {}).forEach(([name, schema]) => {
-      if (this.isObjectSchema(schema) && 
-          !name.endsWith('View') && 
-          !name.endsWith('Error') &&
-          !name.endsWith('Input') &&
-          !name.endsWith('Response') &&
-          !name.includes('Paginated')) {
-        entitySchemas.add(name);
-      }
-    });
+    const getResponseSchemas = schemaNames([
+      ...model.getCollectionSchemas('GET'),
+      ...model.getResponseSchemas('GET').filter(schema => schema.isEntity)
+    ]);
+    const postRequestSchemas = schemaNames(model.getRequestSchemas('POST'));
+    const putPatchRequestSchemas = schemaNames(model.getRequestSchemas('PUT', 'PATCH'));
+    const entitySchemas = schemaNames(model.getEntitySchemas());
 
     console.log(`Found ${getResponseSchemas.size} GET response schemas for lists`);
     console.log(`Found ${postRequestSchemas.size} POST request schemas for create forms`);
@@ -249,8 +190,9 @@ export class ComponentsGenerator extends BaseGenerator {
 - ${generatedFiles.createForms.length} Create Forms (for POST request bodies)
 - ${generatedFiles.editForms.length} Edit Forms (for PUT/PATCH request bodies)`);
   }private generateCreateFormComponent(name: string, schema: SchemaDefinition): string {
-    const properties = schema.properties || {};
+    const properties = this.getFormProperties(schema);
     const required = schema.required || [];
+    const dataType = this.getRequestTypeName(name, schema);
     
     // Generate form fields
     const formFields = Object.entries(properties).map(([propName, propSchema]) => {
@@ -258,9 +200,11 @@ export class ComponentsGenerator extends BaseGenerator {
       return this.generateFormField(propName, propSchema, isRequired);
     }).join('\n      ');
     
-    // Generate default values for form fields
+    // Generate default values for form fields, seeded from the schema defaults
     const defaultValues = Object.entries(properties)
-      .map(([propName]) => `${propName}: undefined,`)
+      .map(([propName, propSchema]) => 
+        `${propName}: ${propSchema.default !== undefined ? this.formatLiteral(propSchema.default) : 'undefined'},`
+      )
       .join('\n      ');
     
     // Generate the human-readable name for display
@@ -269,14 +213,16 @@ export class ComponentsGenerator extends BaseGenerator {
     // Apply template replacements
     return CREATE_FORM_TEMPLATE
       .replace(/{{typeName}}/g, name)
-      .replace(/{{schemaName}}/g, `${name}Schema`)
+      .replace(/{{dataType}}/g, dataType)
+      .replace(/{{schemaName}}/g, `${dataType}Schema`)
       .replace(/{{schemaFile}}/g, this.toKebabCase(name))
       .replace(/{{defaultValues}}/g, defaultValues)
       .replace(/{{formFields}}/g, formFields)
       .replace(/{{humanizedName}}/g, humanizedName);
   }  private generateEditFormComponent(name: string, schema: SchemaDefinition): string {
-    const properties = schema.properties || {};
+    const properties = this.getFormProperties(schema);
     const required = schema.required || [];
+    const dataType = this.getRequestTypeName(name, schema);
     
     // Generate form fields
     const formFields = Object.entries(properties).map(([propName, propSchema]) => {
@@ -290,7 +236,8 @@ export class ComponentsGenerator extends BaseGenerator {
     // Apply template replacements
     return EDIT_FORM_TEMPLATE
       .replace(/{{typeName}}/g, name)
-      .replace(/{{schemaName}}/g, `${name}Schema`)
+      .replace(/{{dataType}}/g, dataType)
+      .replace(/{{schemaName}}/g, `${dataType}Schema`)
       .replace(/{{schemaFile}}/g, this.toKebabCase(name))
       .replace(/{{formFields}}/g, formFields)
       .replace(/{{humanizedName}}/g, humanizedName);
@@ -347,19 +294,23 @@ export class ComponentsGenerator extends BaseGenerator {
   }
     private generateFormField(propName: string, propSchema: any, isRequired: boolean): string {
     const label = this.formatPropertyName(propName);
-    
-    // Use the form field template from the imported template
-    let fieldContent = FORM_FIELD_TEMPLATE
-      .replace(/{{name}}/g, propName)
-      .replace(/{{label}}/g, label)
-      .replace(/{{required}}/g, isRequired ? 'true' : 'false');
+    const inputField = (fieldType: string) => this.generateInputField(propName, label, isRequired, fieldType);
     
     if (propSchema.$ref) {
       // It's a reference to another schema - would need a select field
       return this.generateSelectField(propName, label, isRequired, `Referenced type: ${this.extractNameFromRef(propSchema.$ref)}`);
     }
     
-    switch (propSchema.type || 'string') { // Default to string if type is undefined
+    if (propSchema.const !== undefined) {
+      // Fixed values (OpenAPI 3.1 const) are submitted as-is and never edited
+      return `<input type="hidden" {...form.register('${propName}')} value={${JSON.stringify(propSchema.const)}} />`;
+    }
+    
+    if (this.isBinarySchema(propSchema) || (this.getSchemaType(propSchema) === 'array' && this.isBinarySchema(propSchema.items))) {
+      return this.generateFileField(propName, label, isRequired, !this.isBinarySchema(propSchema));
+    }
+    
+    switch (this.getSchemaType(propSchema) || 'string') { // Default to string if type is undefined
       case 'string':
         if (propSchema.enum) {
           // Enum type field
@@ -369,29 +320,53 @@ export class ComponentsGenerator extends BaseGenerator {
           return this.generateSelectField(propName, label, isRequired, options);
         } else if (propSchema.format === 'date-time' || propSchema.format === 'date') {
           // Date input
-          return fieldContent.replace(/{{type}}/g, 'date');
+          return inputField('date');
         } else if (propSchema.format === 'email') {
           // Email input
-          return fieldContent.replace(/{{type}}/g, 'email');
+          return inputField('email');
         } else {
           // Regular text input
-          return fieldContent.replace(/{{type}}/g, 'text');
+          return inputField('text');
         }
       
       case 'integer':
       case 'number':
-        return fieldContent.replace(/{{type}}/g, 'number');
+        return inputField('number');
         
       case 'boolean':
-        return fieldContent.replace(/{{type}}/g, 'checkbox');
+        return inputField('checkbox');
         
       case 'array':
       case 'object':
       default:
-        return fieldContent.replace(/{{type}}/g, 'text');
+        return inputField('text');
     }
   }
   
+  private generateInputField(propName: string, label: string, isRequired: boolean, fieldType: string): string {
+    return TemplateEngine.process(FORM_FIELD_TEMPLATE, {
+      fieldName: propName,
+      fieldLabel: label,
+      fieldPlaceholder: `Enter ${label}`,
+      fieldType,
+      fieldRequired: isRequired ? 'true' : 'false'
+    });
+  }
+  
+  private isBinarySchema(schema: any): boolean {
+    return !!schema && this.getSchemaType(schema) === 'string' && schema.format === 'binary';
+  }
+  
+  private generateFileField(propName: string, label: string, isRequired: boolean, multiple: boolean): string {
+    return TemplateEngine.process(FILE_FIELD_TEMPLATE, {
+      fieldName: propName,
+      fieldLabel: label,
+      fieldRequired: isRequired ? 'true' : 'false',
+      multiple: multiple ? '\n          multiple' : '',
+      fileValue: multiple ? 'Array.from(event.target.files ?? [])' : 'event.target.files?.[0]'
+    });
+  }
+  
   private generateSelectField(propName: string, label: string, isRequired: boolean, options: string): string {
     // Simplified template for select fields
     return `<FormField
@@ -417,7 +392,7 @@ export class ComponentsGenerator extends BaseGenerator {
       return this.extractNameFromRef(propSchema.$ref);
     }
     
-    switch (propSchema.type) {
+    switch (this.getSchemaType(propSchema)) {
       case 'string':
         return 'string';
       case 'number':
@@ -434,6 +409,15 @@ export class ComponentsGenerator extends BaseGenerator {
     }
   }
 
+  /**
+   * Form fields exclude readOnly properties, which the server owns
+   */
+  private getFormProperties(schema: SchemaDefinition): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(schema.properties || {}).filter(([, propSchema]) => !propSchema?.readOnly)
+    );
+  }
+
   private formatPropertyName(name: string): string {
     return name
       // Insert a space before all capital letters
@@ -449,7 +433,7 @@ export class ComponentsGenerator extends BaseGenerator {
     // 2. It has properties (implied object type), OR  
     // 3. It uses allOf composition pattern, OR
     // 4. It has no type specified but has properties (common in OpenAPI)
-    return schema.type === 'object' || 
+    return this.getSchemaType(schema) === 'object' || 
            !!schema.properties || 
            !!schema.allOf ||
            (!schema.type && !!schema.properties);
@@ -4,6 +4,8 @@ import { SchemaDefinition } from '../types.js';
 
 export class FakesDataGenerator extends BaseGenerator {
   private _generatedFakes: Map<string, string> = new Map();
+  // Object schemas being generated, a schema nested in itself is left out the second time
+  private _ancestors: Set<object> = new Set();
   
   protected getGeneratorKey(): string {
     return 'fakes';
@@ -51,12 +53,19 @@ export class FakesDataGenerator extends BaseGenerator {
     // Generate multiple fake data instances for variety
     const sampleDataInstances = [];
     
+    // Tuples, enums and other schemas that are no object or union are generated like a property
+    const schemaType = this.getSchemaType(schema);
+    const isValue = !schema.oneOf && !schema.anyOf && !schema.allOf && schemaType !== undefined && schemaType !== 'object';
+    
     for (let i = 0; i < 5; i++) {
-      const fakeData = this.generateFakeDataObject(schema, schemaName, i);
+      const fakeData = isValue
+        ? this.generatePropertyValue(schemaName, schema, i)
+        : this.generateFakeDataObject(schema, schemaName, i);
       sampleDataInstances.push(JSON.stringify(fakeData, null, 2));
     }
     
-    let imports = `import { ${schemaName} } from '../types';\n\n`;
+    const typesPath = this.getImportPath(this.getOutputDirectory('fake-data'), this.getOutputDirectory('types'));
+    let imports = `import type { ${schemaName} } from '${typesPath}';\n\n`;
     
     // Generate the fake data file with plain objects
     const content = `${imports}// Fake data instances for ${schemaName}
@@ -80,36 +89,104 @@ export const getRandom${schemaName} = (): ${schemaName} => {
   }
   
   private generateFakeDataObject(schema: SchemaDefinition, schemaName: string, index: number): any {
-    const fakeObj: any = {};
+    if (schema.oneOf || schema.anyOf) {
+      return this.generateVariantValue(schemaName, schema, index);
+    }
     
-    if (schema.properties) {
-      Object.entries(schema.properties).forEach(([propName, propSchema]) => {
+    return this.withAncestor(schema, () => {
+      const fakeObj: any = {};
+      Object.entries(this.getObjectProperties(schema)).forEach(([propName, propSchema]) => {
         fakeObj[propName] = this.generatePropertyValue(propName, propSchema, index);
       });
+      return fakeObj;
+    });
+  }
+
+  private withAncestor<T>(schema: object, generate: () => T): T {
+    this._ancestors.add(schema);
+    try {
+      return generate();
+    } finally {
+      this._ancestors.delete(schema);
+    }
+  }
+  
+  /**
+   * Rotate through the oneOf/anyOf variants and stamp the discriminator value of the chosen one
+   */
+  private generateVariantValue(propName: string, schema: SchemaDefinition, index: number): any {
+    const variants = this.getSchemaVariants(schema);
+    if (variants.length === 0) {
+      return {};
     }
     
-    return fakeObj;
+    const variant = variants[index % variants.length];
+    const value = variant.schema.oneOf || variant.schema.anyOf || this.getSchemaType(variant.schema) === 'object' || variant.schema.allOf
+      ? this.generateFakeDataObject(variant.schema, variant.name || propName, index)
+      : this.generatePropertyValue(propName, variant.schema, index);
+    
+    const discriminator = schema.discriminator?.propertyName;
+    if (discriminator && variant.discriminatorValue !== null && value && typeof value === 'object') {
+      value[discriminator] = variant.discriminatorValue;
+    }
+    
+    return value;
   }
   
   private generatePropertyValue(propName: string, propSchema: any, index: number): any {
+    // Self-referencing schemas (Club.parent: Club) would recurse forever, undefined drops the property
+    if (this._ancestors.has(propSchema)) {
+      return undefined;
+    }
+    
+    if (propSchema.oneOf || propSchema.anyOf) {
+      return this.withAncestor(propSchema, () => this.generateVariantValue(propName, propSchema, index));
+    }
+    
+    if (propSchema.allOf) {
+      return this.generateFakeDataObject(propSchema, propName, index);
+    }
+    
     if ('$ref' in propSchema) {
       // For referenced schemas, return a simple object
       const refType = this.extractNameFromRef(propSchema.$ref);
       return this.generateSimpleObjectForRef(refType, index);
     }
     
-    if (propSchema.type === 'array') {
+    if (propSchema.const !== undefined) {
+      return propSchema.const;
+    }
+    
+    // Enums of any type, typed or not, rotate through their values
+    if (Array.isArray(propSchema.enum) && propSchema.enum.length > 0) {
+      return propSchema.enum[index % propSchema.enum.length];
+    }
+    
+    const schemaType = this.getSchemaType(propSchema);
+    
+    if (schemaType === 'array') {
+      if (propSchema.prefixItems) {
+        // Tuple arrays (OpenAPI 3.1) need one value per position
+        return propSchema.prefixItems.map((itemSchema: any, position: number) =>
+          this.generatePropertyValue(`${propName}_${position}`, itemSchema, index)
+        );
+      }
+      
       const itemCount = 2 + (index % 3); // Vary array length
-      const items = [];
-      for (let i = 0; i < itemCount; i++) {
-        if (propSchema.items) {
-          items.push(this.generatePropertyValue(`${propName}_item`, propSchema.items, i));
+      const items = this.withAncestor(propSchema, () => {
+        const generated = [];
+        for (let i = 0; i < itemCount; i++) {
+          if (propSchema.items) {
+            generated.push(this.generatePropertyValue(`${propName}_item`, propSchema.items, i));
+          }
         }
-      }
-      return items;
+        return generated;
+      });
+      // Items of the schema being generated leave the array empty
+      return items.filter(item => item !== undefined);
     }
     
-    switch (propSchema.type) {
+    switch (schemaType) {
       case 'string':
         return this.generateStringValue(propName, propSchema, index);
       case 'number':
@@ -119,11 +196,13 @@ export const getRandom${schemaName} = (): ${schemaName} => {
         return index % 2 === 0;
       case 'object':
         if (propSchema.properties) {
-          const obj: any = {};
-          Object.entries(propSchema.properties).forEach(([nestedProp, nestedSchema]) => {
-            obj[nestedProp] = this.generatePropertyValue(nestedProp, nestedSchema, index);
+          return this.withAncestor(propSchema, () => {
+            const obj: any = {};
+            Object.entries(propSchema.properties).forEach(([nestedProp, nestedSchema]) => {
+              obj[nestedProp] = this.generatePropertyValue(nestedProp, nestedSchema, index);
+            });
+            return obj;
           });
-          return obj;
         }
         return {};
       default:
@@ -178,11 +257,6 @@ export const getRandom${schemaName} = (): ${schemaName} => {
       return types[index % types.length];
     }
     
-    // Enum handling
-    if (propSchema.enum && Array.isArray(propSchema.enum)) {
-      return propSchema.enum[index % propSchema.enum.length];
-    }
-    
     // Default string generation
     return `Sample ${propName} ${index + 1}`;
   }
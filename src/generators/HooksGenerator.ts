@@ -1,10 +1,26 @@
 import { BaseGenerator } from '../BaseGenerator.js';
 import { FileSystemAPI } from '../FileSystem.js';
+import { HooksBackend, SchemaDefinition, ServiceOutputStyle } from '../types.js';
 import { TemplateEngine, TemplateVariables } from '../core/TemplateEngine.js';
-import { 
-  QUERY_HOOK_TEMPLATE, 
-  MUTATION_HOOK_TEMPLATE, 
-  HOOK_IMPORTS_TEMPLATE 
+import { ApiOperation, ApiPagination, singularize } from '../core/ApiModel.js';
+import { HttpMethod } from '../types.js';
+import { ParsedService, ServiceFileParser } from '../core/ServiceFileParser.js';
+import {
+  QUERY_HOOK_TEMPLATE,
+  INFINITE_QUERY_HOOK_TEMPLATE,
+  MUTATION_HOOK_TEMPLATE,
+  OPTIMISTIC_MUTATION_HOOK_TEMPLATE,
+  OPTIMISTIC_HELPERS_TEMPLATE,
+  QUERY_OPTIONS_TEMPLATE,
+  SERVICE_RESULTS_TEMPLATE,
+  HOOK_IMPORTS_TEMPLATE,
+  QUERY_KEYS_TEMPLATE,
+  SWR_QUERY_HOOK_TEMPLATE,
+  SWR_MUTATION_HOOK_TEMPLATE,
+  SWR_HOOK_IMPORTS_TEMPLATE,
+  SWR_KEYS_TEMPLATE,
+  RTK_QUERY_API_TEMPLATE,
+  RTK_QUERY_ENDPOINT_TEMPLATE
 } from '../templates/hook.template.js';
 import fs from 'fs';
 import path from 'path';
@@ -15,15 +31,73 @@ import { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Headers that only identify or trace a request never change what a query returns
+const NON_KEY_HEADERS = /^(x-)?(request-id|correlation-id|trace-?id|traceparent|idempotency-key)$/i;
+
+// Libraries the hooks can be generated for, with the name the generated files mention
+const HOOKS_BACKENDS: Record<HooksBackend, string> = {
+  'react-query': 'React Query',
+  swr: 'SWR',
+  'rtk-query': 'RTK Query'
+};
+
+interface HookParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+  inQueryKey: boolean;     // Whether the value identifies the cached response
+  pathName: string | null; // Placeholder the value fills in the operation path
+  queryName: string | null; // Name in the query string, for query parameters
+}
+
+interface HookOperation {
+  methodName: string;
+  accessor: string | null; // Exported identifier the service method is called on, null for standalone functions
+  method: HttpMethod | null;
+  isQuery: boolean;
+  isCollection: boolean;   // Responds with a list of items, plain or paginated
+  returnsResult: boolean;  // Resolves to a ResponseOnSuccess / error union rather than to the data itself
+  path: string | null;     // Spec path the query keys are derived from, null when the operation is unknown
+  pagination: ApiPagination | null;
+  parameters: HookParameter[];
+}
+
+/**
+ * An operation path split into its resource (first segment) and the key elements below it
+ */
+interface ResourcePath {
+  keysName: string;
+  segments: Array<{ key: string; isParameter: boolean }>;
+}
+
+/**
+ * Everything needed to write the hooks file of one service
+ */
+interface HookSource {
+  serviceName: string;
+  serviceFile: string;     // Service module path, without extension
+  serviceImports: string[];
+  typeNames: string[];
+  operations: HookOperation[];
+}
+
 export class HooksGenerator extends BaseGenerator {
   private _generatedHooks: Map<string, string> = new Map();
-  private _servicesCode: Map<string, string> = new Map();
-  
+  private _parsedServices: ParsedService[] = [];
+  private _queryKeys: Map<string, string> = new Map(); // Key factory name -> resource
+  private _hasOptimisticUpdates = false;
+  private _backend: HooksBackend | null = null;
+
+  /**
+   * By default hooks are built from the operations of the spec. Passing service sources
+   * (or calling loadServicesFromDirectory) switches to parsing those services instead.
+   */
   constructor(spec: any, basePath: string, servicesCode?: Map<string, string>) {
     super(spec, basePath);
-    if (servicesCode) {
-      this._servicesCode = servicesCode;
-    }
+    servicesCode?.forEach((code, serviceName) => {
+      const filePath = path.join(this.getOutputDirectory('services'), `${this.toKebabCase(serviceName)}.ts`);
+      this._parsedServices.push(...ServiceFileParser.parse(filePath, code));
+    });
   }
 
   protected getGeneratorKey(): string {
@@ -37,187 +111,291 @@ export class HooksGenerator extends BaseGenerator {
   protected async generateFiles(fs: FileSystemAPI): Promise<void> {
     this.saveFiles(fs);
   }
-  generate(): Map<string, string> {    // Get config options (use defaults for now)
-    const useReactQuery = true;
-    const includeInfiniteQueries = true;
-    const includeMutations = true;
-    
-    console.log(`Generating hooks with React Query: ${useReactQuery}`);
-    console.log(`Include infinite queries: ${includeInfiniteQueries}`);
-    console.log(`Include mutations: ${includeMutations}`);
-    
-    // If no services were provided, try to load them from the services directory
-    if (this._servicesCode.size === 0) {
-      this.loadServicesFromFiles();
-      
-      // If still no services found, generate them directly from the OpenAPI spec
-      if (this._servicesCode.size === 0) {
-        this.generateServicesFromSpec();
+  generate(): Map<string, string> {
+    const fromFiles = this._parsedServices.length > 0;
+    const backend = this.getBackend();
+    console.log(`Generating ${HOOKS_BACKENDS[backend]} hooks from ${fromFiles ? `${this._parsedServices.length} parsed services` : 'the OpenAPI operations'}`);
+
+    const sources = fromFiles ? this.getSourcesFromParsedServices() : this.getSourcesFromModel();
+
+    // RTK Query puts the endpoints of every service in one API slice
+    if (backend === 'rtk-query') {
+      const apiCode = this.generateRtkQueryApi(sources);
+      if (apiCode) {
+        this._generatedHooks.set('Api', apiCode);
       }
+      return this._generatedHooks;
     }
-    
+
     // Generate hooks for each service
-    this._servicesCode.forEach((serviceCode, serviceName) => {
-      const hookCode = this.generateHooksForService(
-        serviceName, 
-        serviceCode,
-        { useReactQuery, includeInfiniteQueries, includeMutations }
-      );
+    sources.forEach(source => {
+      const hookCode = backend === 'swr' ? this.generateSwrHooksForService(source) : this.generateHooksForService(source);
       if (hookCode) {
-        this._generatedHooks.set(`${serviceName.replace('Service', '')}Hooks`, hookCode);
+        this._generatedHooks.set(`${source.serviceName.replace('Service', '')}Hooks`, hookCode);
       }
     });
-    
+
     return this._generatedHooks;
   }
-  
+
   saveFiles(fs: FileSystemAPI): void {
     const hooksDir = this.getOutputDirectory('hooks');
     fs.ensureDirectoryExists(hooksDir);
-    
-    let indexFileContent = '// Auto-generated React Query hooks from API spec\n\n';
-    
+
+    const backend = this.getBackend();
+    let indexFileContent = `// Auto-generated ${HOOKS_BACKENDS[backend]} hooks from API spec\n\n`;
+
     this._generatedHooks.forEach((content, name) => {
       const fileName = `${this.toKebabCase(name)}.ts`;
       const filePath = fs.joinPath(hooksDir, fileName);
-      
+
       fs.writeFile(filePath, content);
-      
+
       indexFileContent += `export * from './${this.toKebabCase(name)}';\n`;
     });
-    
+
+    fs.writeFile(fs.joinPath(hooksDir, 'service-results.ts'), SERVICE_RESULTS_TEMPLATE);
+    indexFileContent += `export * from './service-results';\n`;
+    if (backend === 'react-query') {
+      fs.writeFile(fs.joinPath(hooksDir, 'query-options.ts'), QUERY_OPTIONS_TEMPLATE);
+      indexFileContent += `export * from './query-options';\n`;
+    }
+    // RTK Query tracks its cache by tags rather than by keys
+    if (this._queryKeys.size > 0 && backend !== 'rtk-query') {
+      fs.writeFile(fs.joinPath(hooksDir, 'query-keys.ts'), this.generateQueryKeys());
+      indexFileContent += `export * from './query-keys';\n`;
+    }
+    if (backend === 'swr') {
+      fs.writeFile(fs.joinPath(hooksDir, 'swr-keys.ts'), SWR_KEYS_TEMPLATE);
+      indexFileContent += `export * from './swr-keys';\n`;
+    }
+    if (this._hasOptimisticUpdates) {
+      fs.writeFile(fs.joinPath(hooksDir, 'optimistic.ts'), OPTIMISTIC_HELPERS_TEMPLATE);
+      indexFileContent += `export * from './optimistic';\n`;
+    }
+
     this.createIndexFile(hooksDir, indexFileContent, fs);
   }
-  
-  private loadServicesFromFiles(): void {
-    const servicesPath = path.join(this.basePath, 'services');
-    
-    if (fs.existsSync(servicesPath)) {
-      const files = fs.readdirSync(servicesPath);
-      
-      files.forEach(file => {
-        if (file.endsWith('.ts') && !file.endsWith('index.ts')) {
-          const servicePath = path.join(servicesPath, file);
-          const serviceCode = fs.readFileSync(servicePath, 'utf8');
-          const serviceName = this.getServiceNameFromFile(file);
-          
-          if (serviceName) {
-            this._servicesCode.set(serviceName, serviceCode);
-          }
-        }
-      });
+
+  /**
+   * Opt-in: generate hooks for the services found in a directory (e.g. hand-written
+   * services passed with --input) rather than from the spec
+   */
+  loadServicesFromDirectory(directory: string, fs: FileSystemAPI): void {
+    console.log(`Loading services from directory: ${directory}`);
+    if (!fs.readDirectory || !fs.readFile) {
+      throw new Error('The file system implementation does not support reading service files');
     }
+
+    const files = fs.readDirectory(directory)
+      .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts') && file !== 'index.ts');
+
+    files.forEach(file => {
+      const filePath = fs.joinPath(directory, file);
+      const services = ServiceFileParser.parse(filePath, fs.readFile!(filePath))
+        .filter(service => /service$/i.test(service.name) || /service\.ts$/i.test(file));
+      this._parsedServices.push(...services);
+    });
+
+    console.log(`Loaded ${this._parsedServices.length} services from ${files.length} files`);
   }
-    loadServicesFromDirectory(directory: string, fs: FileSystemAPI): void {
-    console.log(`Loading services from directory: ${directory}`);
-    try {
-      // Check if the readDirectory method exists
-      if (!fs.readDirectory) {
-        console.error('The file system implementation does not support directory reading');
-        return;
+
+  /**
+   * Overrides `hooksGeneration.backend`, e.g. with the --backend option
+   */
+  setBackend(backend: HooksBackend): void {
+    this._backend = backend;
+  }
+
+  /**
+   * `hooksGeneration.backend`, React Query unless set
+   */
+  private getBackend(): HooksBackend {
+    const backend = this._backend || this.config.options?.hooksGeneration?.backend || 'react-query';
+    if (!(backend in HOOKS_BACKENDS)) {
+      throw new Error(`Unknown hooksGeneration.backend "${backend}", expected one of: ${Object.keys(HOOKS_BACKENDS).join(', ')}`);
+    }
+    return backend;
+  }
+
+  /**
+   * `hooksGeneration.serviceStyle`, following `servicesGeneration.outputStyle` unless set
+   */
+  private getServiceStyle(): ServiceOutputStyle {
+    const options = this.config.options || {};
+    return options.hooksGeneration?.serviceStyle || options.servicesGeneration?.outputStyle || 'class';
+  }
+
+  private includeInfiniteQueries(): boolean {
+    return this.config.options?.hooksGeneration?.includeInfiniteQueries !== false;
+  }
+
+  private getSourcesFromModel(): HookSource[] {
+    const servicesDir = this.getOutputDirectory('services');
+    const asFunctions = this.getServiceStyle() === 'functions';
+
+    return this.getApiModel().services.map(service => {
+      // Function-style services are imported operation by operation
+      const accessor = asFunctions ? null : service.name.charAt(0).toLowerCase() + service.name.slice(1);
+      this.referencedTypeNames.clear();
+      const bodyTypeNames = new Set<string>();
+
+      const operations = service.operations.map(operation => ({
+        methodName: operation.name,
+        accessor,
+        method: operation.method,
+        isQuery: operation.method === 'GET',
+        isCollection: Boolean(operation.successResponse?.collection),
+        returnsResult: true,
+        path: operation.path,
+        pagination: this.includeInfiniteQueries() ? operation.pagination : null,
+        parameters: this.getOperationParameters(operation, bodyTypeNames)
+      }));
+
+      return {
+        serviceName: service.name,
+        serviceFile: path.join(servicesDir, this.toKebabCase(service.name)),
+        serviceImports: accessor ? [accessor] : operations.map(operation => operation.methodName),
+        typeNames: Array.from(new Set([...this.referencedTypeNames, ...bodyTypeNames])),
+        operations
+      };
+    });
+  }
+
+  /**
+   * Same parameter list, in the same order, as the generated service method
+   */
+  private getOperationParameters(operation: ApiOperation, bodyTypeNames: Set<string>): HookParameter[] {
+    const parameters: HookParameter[] = [
+      ...operation.pathParameters,
+      ...operation.queryParameters,
+      ...operation.headerParameters,
+      ...operation.cookieParameters
+    ].map(parameter => ({
+      name: parameter.identifier,
+      type: this.getTypeReference(parameter.schema),
+      optional: !parameter.required,
+      inQueryKey: parameter.in !== 'header' || !NON_KEY_HEADERS.test(parameter.name),
+      pathName: parameter.in === 'path' ? parameter.name : null,
+      queryName: parameter.in === 'query' ? parameter.name : null
+    }));
+
+    const requestBody = operation.requestBody;
+    if (requestBody) {
+      let type = this.getTypeFromSchema(requestBody.schema);
+      if (requestBody.schemaName) {
+        type = this.getRequestTypeName(requestBody.schemaName, requestBody.schema as SchemaDefinition);
+        bodyTypeNames.add(type);
       }
-        const files = fs.readDirectory(directory);
-      const serviceFiles = files.filter(file => file.endsWith('-service.ts') || file.endsWith('.service.ts'));
-        serviceFiles.forEach(file => {
-        const filePath = fs.joinPath(directory, file);
-        // Read file contents using the readFile method if available
-        const content = fs.readFile ? fs.readFile(filePath) : require('fs').readFileSync(filePath, 'utf8');
-        const serviceName = this.extractServiceName(file);
-        if (serviceName) {
-          this._servicesCode.set(serviceName, content);
+      parameters.push({ name: 'data', type, optional: !requestBody.required, inQueryKey: true, pathName: null, queryName: null });
+    }
+
+    return parameters;
+  }
+
+  private getSourcesFromParsedServices(): HookSource[] {
+    return this._parsedServices.map(service => {
+      // Operations the spec knows about keep their HTTP semantics, others are guessed from the name
+      const operations = this.getApiModel().getService(service.name)?.operations || [];
+      const accessors = new Set<string>();
+
+      const isFunctionModule = !service.className && !service.instanceName;
+      const hookOperations = service.methods.flatMap(method => {
+        const accessor = method.isStatic ? service.className : service.instanceName;
+        if (!accessor && !isFunctionModule) {
+          console.warn(`Skipping ${service.name}.${method.name}: no exported instance to call it on`);
+          return [];
         }
+        accessors.add(accessor || method.name);
+        const callee = accessor ? `${accessor}.${method.name}` : method.name;
+
+        const operation = operations.find(candidate => candidate.name === method.name);
+        return [{
+          methodName: method.name,
+          accessor,
+          method: operation?.method ?? null,
+          isQuery: operation ? operation.method === 'GET' : /^(get|list|find|fetch|search)/.test(method.name),
+          isCollection: Boolean(operation?.successResponse?.collection),
+          returnsResult: /\bResponseOnSuccess\b/.test(method.returnType ?? ''),
+          path: operation?.path ?? null,
+          // Infinite queries need the exact service signature, which only the spec guarantees
+          pagination: null,
+          // Types are taken from the service itself so hand-written signatures need no extra imports
+          parameters: method.parameters.map((parameter, index) => ({
+            name: parameter.name,
+            type: `Parameters<typeof ${callee}>[${index}]`,
+            optional: parameter.optional,
+            inQueryKey: true,
+            pathName: operation?.pathParameters.find(candidate => candidate.identifier === parameter.name)?.name ?? null,
+            queryName: null
+          }))
+        }];
       });
-      
-      console.log(`Loaded ${this._servicesCode.size} service files from custom directory`);
-    } catch (error) {
-      console.error(`Error loading services from directory ${directory}:`, error);
-    }
-  }
-    private extractServiceName(fileName: string): string | null {
-    // Extract service name from file name (e.g., authentication-service.ts -> AuthenticationService)
-    let match = fileName.match(/(.+)-service\.ts$/);
-    if (!match) {
-      // Also support .service.ts pattern (e.g., user.service.ts -> UserService)
-      match = fileName.match(/(.+)\.service\.ts$/);
-    }
-    
-    if (match && match[1]) {
-      const baseName = match[1];
-      // Convert kebab-case to PascalCase
-      const pascalCase = baseName
-        .split('-')
-        .map(part => part.charAt(0).toUpperCase() + part.slice(1))
-        .join('');
-      return `${pascalCase}Service`;
-    }
-    return null;
-  }
-  
-  private getServiceNameFromFile(fileName: string): string | null {
-    // Convert kebab-case to PascalCase and add Service suffix if missing
-    const baseName = fileName.replace(/\.ts$/, '');
-    const parts = baseName.split('-');
-    const pascalCase = parts.map(p => p.charAt(0).toUpperCase() + p.slice(1)).join('');
-    
-    return pascalCase.endsWith('Service') ? pascalCase : `${pascalCase}Service`;
-  }
-    private generateHooksForService(
-    serviceName: string, 
-    serviceCode: string, 
-    options: { useReactQuery: boolean; includeInfiniteQueries: boolean; includeMutations: boolean } = {
-      useReactQuery: true, 
-      includeInfiniteQueries: true, 
-      includeMutations: true
-    }
-  ): string {
-    // Extract the endpoints from the service code
-    // Updated regex to match service methods that return CancelablePromise
-    const regex = /(\w+)\(([^)]*)\):\s*CancelablePromise<[^>]+>/g;
-    const matches = Array.from(serviceCode.matchAll(regex));
-    
-    if (!matches.length) {
-      console.log(`No service methods found in ${serviceName} using pattern: methodName(params): CancelablePromise<Type>`);
+
+      return {
+        serviceName: service.name.endsWith('Service') ? service.name : `${service.name}Service`,
+        serviceFile: service.filePath.replace(/\.ts$/, ''),
+        serviceImports: Array.from(accessors),
+        typeNames: [],
+        operations: hookOperations
+      };
+    });
+  }
+
+  private generateHooksForService(source: HookSource): string {
+    if (source.operations.length === 0) {
+      console.log(`No service methods found in ${source.serviceName}`);
       return '';
     }
-    
-    console.log(`Found ${matches.length} service methods in ${serviceName}:`, matches.map(m => m[1]));
-    
-    const resourceName = serviceName.replace('Service', '');
-    const serviceLower = serviceName.charAt(0).toLowerCase() + serviceName.slice(1);
-    const serviceFile = this.toKebabCase(serviceName);
-      // Generate imports
-    let importedTypes = new Set<string>();
-    matches.forEach(match => {
-      const methodName = match[1];
-      importedTypes.add(resourceName);
-    });
-    
+
+    console.log(`Found ${source.operations.length} service methods in ${source.serviceName}:`, source.operations.map(operation => operation.methodName));
+
+    const hooksDir = this.getOutputDirectory('hooks');
+    const resourceName = source.serviceName.replace('Service', '');
+
+    // Reads become queries, paginated reads also infinite queries, everything else a mutation
+    const hookFunctions = source.operations.map(operation => operation.isQuery
+      ? this.generateQueryHook(resourceName, operation) + this.generateInfiniteQueryHook(resourceName, operation)
+      : this.generateMutationHook(resourceName, operation)
+    ).join('');
+
+    const optimistic = source.operations.some(operation => this.getOptimisticUpdate(operation));
+    const paginations = source.operations.flatMap(operation => operation.pagination ?? []);
+    const helpers = Array.from(new Set(paginations.map(pagination => pagination.kind === 'page' ? 'getNextPage' : 'getNextCursor')));
+    const reactQueryImports = ['useQuery', ...(paginations.length > 0 ? ['useInfiniteQuery'] : []), 'useMutation', 'useQueryClient'];
+
+    // Only the option types the hooks of this file refer to
+    const optionTypes = [
+      ...(source.operations.some(operation => operation.isQuery) ? ['QueryOptions'] : []),
+      ...(paginations.length > 0 ? ['InfiniteQueryOptions', 'InfiniteItems'] : []),
+      ...(source.operations.some(operation => !operation.isQuery) ? ['MutationOptions'] : [])
+    ];
+    const supportImports = [
+      ...(paginations.length > 0 ? [`import type { QueryKey } from '@tanstack/react-query';`] : []),
+      `import type { ${optionTypes.join(', ')} } from './query-options';`,
+      ...this.getServiceResultImports(source.operations),
+      ...this.getQueryKeyImports(source.operations),
+      ...(optimistic ? [
+        `import type { OptimisticMutationOptions, OptimisticSnapshot } from './optimistic';`,
+        `import { applyOptimisticUpdate, mergeItem, rollbackOptimisticUpdate } from './optimistic';`
+      ] : [])
+    ];
+
     const hookImports = TemplateEngine.process(HOOK_IMPORTS_TEMPLATE, {
-      importedTypes: Array.from(importedTypes).join(', '),
-      serviceName,
-      serviceLower,
-      serviceFile
-    });
-    
-    let hookFunctions = '';
-    
-    matches.forEach(match => {
-      const methodName = match[1];
-      const params = match[2];
-      
-      // Determine if it's a query or mutation based on method name
-      if (methodName.startsWith('get') || methodName.startsWith('list') || methodName.startsWith('find')) {
-        // It's a query (read operation)
-        hookFunctions += this.generateQueryHook(resourceName, serviceLower, methodName, params);
-      } else {
-        // It's a mutation (write operation)
-        hookFunctions += this.generateMutationHook(resourceName, serviceLower, methodName, params);
-      }
+      typeImports: this.getTypeImports(source.typeNames),
+      serviceImports: source.serviceImports.join(', '),
+      servicePath: this.getImportPath(hooksDir, source.serviceFile),
+      supportImports: supportImports.map(line => `${line}\n`).join(''),
+      reactQueryImports: reactQueryImports.join(', '),
+      paginationImports: helpers.length > 0
+        ? `import { ${helpers.join(', ')} } from '${this.getImportPath(hooksDir, path.join(this.getCoreDirectory(), 'pagination'))}';\n`
+        : ''
     });
-      try {
+
+    try {
       const templateHookConfig = this.config.templates?.hook;
       let templatePath;
-      
+
       if (typeof templateHookConfig === 'string') {
         // If it's a string, use it directly as path
         templatePath = path.resolve(__dirname, '../../', templateHookConfig);
@@ -228,9 +406,10 @@ export class HooksGenerator extends BaseGenerator {
         // Default template path
         templatePath = path.resolve(__dirname, '../../templates/hook.template.ts');
       }
-      
-      if (fs.existsSync(templatePath)) {
-        const hookTemplate = fs.readFileSync(templatePath, 'utf8');
+
+      // Only files declaring the placeholders are hook file templates
+      const hookTemplate = fs.existsSync(templatePath) ? fs.readFileSync(templatePath, 'utf8') : '';
+      if (hookTemplate.includes('{{hookFunctions}}')) {
         return hookTemplate
           .replace('{{imports}}', hookImports)
           .replace('{{hookFunctions}}', hookFunctions);
@@ -238,137 +417,559 @@ export class HooksGenerator extends BaseGenerator {
     } catch (error) {
       console.error('Error loading hook template:', error);
     }
-    
+
     // Fallback to built-in template if template file doesn't exist
     return `${hookImports}/**
  * React Query hooks for ${resourceName} endpoints
  */
 ${hookFunctions}`;
   }
-  private generateQueryHook(resourceName: string, serviceName: string, methodName: string, params: string): string {
-    const hookName = `use${methodName.charAt(0).toUpperCase() + methodName.slice(1)}`;
-    const queryKeyParts = params
-      .split(',')
-      .filter(p => p.trim())
-      .map(p => {
-        const [name] = p.trim().split(':');
-        return name.trim();
-      });
-    
+
+  private generateQueryHook(resourceName: string, operation: HookOperation): string {
+    const hookName = `use${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}`;
+    const names = operation.parameters.map(parameter => parameter.name);
+
     const variables: TemplateVariables = {
       methodName: hookName,
       camelCaseMethodName: hookName.replace('use', ''),
       resourceName,
-      serviceName,
-      serviceMethodName: methodName, // The actual service method name
-      params: queryKeyParts.length > 0 ? `{ ${queryKeyParts.join(', ')} }: { ${params} }` : '',
-      hasParams: queryKeyParts.length > 0 ? `, ${queryKeyParts.join(', ')}` : '',
-      methodParams: queryKeyParts.join(', ')
+      serviceName: operation.accessor || '',
+      serviceMethodName: operation.methodName, // The actual service method name
+      serviceCall: this.getServiceCall(operation),
+      params: this.getQueryHookParams(operation.parameters),
+      queryKey: this.getQueryKey(resourceName, operation),
+      methodParams: names.join(', '),
+      serviceRequest: this.getServiceRequest(operation, names),
+      ...this.getResultTypes(operation)
     };
-    
+
     return TemplateEngine.process(QUERY_HOOK_TEMPLATE, variables);
   }
-  private generateMutationHook(resourceName: string, serviceName: string, methodName: string, params: string): string {
-    const hookName = `use${methodName.charAt(0).toUpperCase() + methodName.slice(1)}`;
-    
-    // Try to determine the type of data being operated on
-    let dataType = 'any';
-    if (params.includes(':')) {
-      const dataParam = params.split(',').find(p => p.trim().startsWith('data:'));
-      if (dataParam) {
-        dataType = dataParam.split(':')[1].trim();
-      }
+
+  /**
+   * `useInfiniteListClubs` next to `useListClubs`. The page parameter is left out of the hook's
+   * parameters and sent by the query itself, through the request options when the spec leaves it implicit.
+   */
+  private generateInfiniteQueryHook(resourceName: string, operation: HookOperation): string {
+    const pagination = operation.pagination;
+    if (!pagination) {
+      return '';
+    }
+
+    const pageParameter = operation.parameters.find(parameter => parameter.queryName === pagination.parameter);
+    const parameters = operation.parameters.filter(parameter => parameter !== pageParameter);
+    const methodParams = operation.parameters.map(parameter => parameter === pageParameter ? 'pageParam' : parameter.name);
+    if (!pageParameter) {
+      const key = /^[A-Za-z_$][\w$]*$/.test(pagination.parameter) ? pagination.parameter : `'${pagination.parameter}'`;
+      methodParams.push(`{ query: { ${key}: pageParam } }`);
+    }
+
+    let nextPageParam = `getNextCursor(lastPage.meta, '${pagination.nextProperty}')`;
+    if (pagination.kind === 'page') {
+      nextPageParam = pagination.lastProperty
+        ? `getNextPage(lastPage.meta, '${pagination.currentProperty}', '${pagination.lastProperty}')`
+        : `getNextPage(lastPage.meta, '${pagination.currentProperty}', null, '${pagination.nextProperty}')`;
+    }
+
+    const queryKey = this.getQueryKey(resourceName, { ...operation, parameters });
+    const variables: TemplateVariables = {
+      methodName: `useInfinite${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}`,
+      resourceName,
+      serviceMethodName: operation.methodName,
+      serviceCall: this.getServiceCall(operation),
+      params: this.getQueryHookParams(parameters),
+      // Kept apart from the single page query, whose cached data has another shape
+      queryKey: queryKey.startsWith('[') ? `${queryKey.slice(0, -1)}, 'infinite']` : `[...${queryKey}, 'infinite']`,
+      methodParams: methodParams.join(', '),
+      serviceRequest: this.getServiceRequest(operation, methodParams),
+      ...this.getResultTypes(operation),
+      pageParamType: pagination.kind === 'page' ? 'number' : 'string | undefined',
+      initialPageParam: pagination.kind === 'page' ? '1' : 'undefined',
+      nextPageParam
+    };
+
+    return TemplateEngine.process(INFINITE_QUERY_HOOK_TEMPLATE, variables);
+  }
+
+  /**
+   * Parameters are passed as one object, itself optional when every field is
+   */
+  private getQueryHookParams(parameters: HookParameter[]): string {
+    if (parameters.length === 0) {
+      return '';
     }
-    
-    const methodParams = params ? params.split(',').map(p => p.trim().split(':')[0].trim()).join(', ') : 'data';
-    
+    const allOptional = parameters.every(parameter => parameter.optional);
+    return `{ ${parameters.map(parameter => parameter.name).join(', ')} }: ${this.getParametersType(parameters)}${allOptional ? ' = {}' : ''}, `;
+  }
+
+  private generateMutationHook(resourceName: string, operation: HookOperation): string {
+    const hookName = `use${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}`;
+    const names = operation.parameters.map(parameter => parameter.name);
+
+    let params = '';
+    const variablesType = this.getVariablesType(operation);
+    if (operation.parameters.length === 1) {
+      const [parameter] = operation.parameters;
+      params = `${parameter.name}${parameter.optional ? '?' : ''}: ${parameter.type}`;
+    } else if (operation.parameters.length > 1) {
+      params = `{ ${names.join(', ')} }: ${variablesType}`;
+    }
+
     const variables: TemplateVariables = {
       methodName: hookName,
       camelCaseMethodName: hookName.replace('use', ''),
       resourceName,
-      serviceName,
-      serviceMethodName: methodName, // The actual service method name
-      params: params || 'data: any',
-      methodParams
+      serviceName: operation.accessor || '',
+      serviceMethodName: operation.methodName, // The actual service method name
+      serviceCall: this.getServiceCall(operation),
+      params,
+      methodParams: names.join(', '),
+      serviceRequest: this.getServiceRequest(operation, names),
+      variablesType,
+      ...this.getResultTypes(operation),
+      ...this.getInvalidations(resourceName, operation)
     };
-    
-    return TemplateEngine.process(MUTATION_HOOK_TEMPLATE, variables);
+
+    const optimistic = this.getOptimisticUpdate(operation);
+    if (!optimistic) {
+      return TemplateEngine.process(MUTATION_HOOK_TEMPLATE, variables);
+    }
+
+    this._hasOptimisticUpdates = true;
+    return TemplateEngine.process(OPTIMISTIC_MUTATION_HOOK_TEMPLATE, { ...variables, ...optimistic });
   }
-  
+
   /**
-   * Generate service code directly from the OpenAPI spec if no service files are found
-   */  private generateServicesFromSpec(): void {
-    // Group endpoints by tag to create services
-    const serviceGroups: Record<string, any[]> = {};
-
-    // Process OpenAPI paths
-    Object.entries(this.spec.paths || {}).forEach(([path, methods]) => {
-      Object.entries(methods || {}).forEach(([method, endpoint]: [string, any]) => {
-        const tag = endpoint.tags?.[0] || 'Default';
-        const serviceName = `${tag}Service`;
-
-        if (!serviceGroups[serviceName]) {
-          serviceGroups[serviceName] = [];
-        }
+   * SWR hooks use the same query keys as the React Query ones. Mutations go through
+   * `useSWRMutation` and revalidate the keys they affect once the service succeeded.
+   */
+  private generateSwrHooksForService(source: HookSource): string {
+    if (source.operations.length === 0) {
+      console.log(`No service methods found in ${source.serviceName}`);
+      return '';
+    }
 
-        serviceGroups[serviceName].push({
-          path,
-          method: method.toUpperCase(),
-          endpoint,
-          operationId: this.generateOperationId(method, path),
-        });
-      });
+    const hooksDir = this.getOutputDirectory('hooks');
+    const resourceName = source.serviceName.replace('Service', '');
+    const hookFunctions = source.operations.map(operation => operation.isQuery
+      ? this.generateSwrQueryHook(resourceName, operation)
+      : this.generateSwrMutationHook(resourceName, operation)
+    ).join('');
+
+    const hasQueries = source.operations.some(operation => operation.isQuery);
+    const hasMutations = source.operations.some(operation => !operation.isQuery);
+    const swrDefault = hasQueries ? 'useSWR' : '';
+    const swrNamed = hasMutations ? '{ useSWRConfig }' : '';
+    const swrImports = [
+      `import ${[swrDefault, swrNamed].filter(Boolean).join(', ')} from 'swr';`,
+      ...(hasQueries ? [`import type { SWRConfiguration } from 'swr';`] : []),
+      ...(hasMutations ? [`import useSWRMutation from 'swr/mutation';`, `import type { SWRMutationConfiguration } from 'swr/mutation';`] : [])
+    ];
+    const supportImports = [
+      ...this.getServiceResultImports(source.operations),
+      ...this.getQueryKeyImports(source.operations),
+      ...(hasMutations ? [`import { matchesKey } from './swr-keys';`] : [])
+    ];
+
+    const hookImports = TemplateEngine.process(SWR_HOOK_IMPORTS_TEMPLATE, {
+      swrImports: swrImports.map(line => `${line}\n`).join(''),
+      typeImports: this.getTypeImports(source.typeNames),
+      serviceImports: source.serviceImports.join(', '),
+      servicePath: this.getImportPath(hooksDir, source.serviceFile),
+      supportImports: supportImports.map(line => `${line}\n`).join('')
     });
 
-    // Generate dummy service code for each service group
-    Object.entries(serviceGroups).forEach(([serviceName, endpoints]) => {
-      let serviceCode = `class ${serviceName} {\n`;
-      
-      endpoints.forEach(({ operationId, path, method }) => {
-        // Generate a simple method signature based on the operationId and path
-        serviceCode += `  async ${operationId}(data) {\n`;
-        serviceCode += `    // ${method} ${path}\n`;
-        serviceCode += `    return { data };\n`;
-        serviceCode += `  }\n\n`;
-      });
-      
-      serviceCode += `}\n\n`;
-      serviceCode += `export const ${serviceName.charAt(0).toLowerCase() + serviceName.slice(1)} = new ${serviceName}();\n`;
-      
-      this._servicesCode.set(serviceName, serviceCode);
+    return `${hookImports}/**
+ * SWR hooks for ${resourceName} endpoints
+ */
+${hookFunctions}`;
+  }
+
+  private generateSwrQueryHook(resourceName: string, operation: HookOperation): string {
+    const names = operation.parameters.map(parameter => parameter.name);
+    return TemplateEngine.process(SWR_QUERY_HOOK_TEMPLATE, {
+      methodName: `use${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}`,
+      serviceMethodName: operation.methodName,
+      params: this.getQueryHookParams(operation.parameters),
+      queryKey: this.getQueryKey(resourceName, operation),
+      serviceRequest: this.getServiceRequest(operation, names),
+      ...this.getResultTypes(operation)
+    });
+  }
+
+  private generateSwrMutationHook(resourceName: string, operation: HookOperation): string {
+    const names = operation.parameters.map(parameter => parameter.name);
+    const revalidations = this.getAffectedKeys(resourceName, operation)
+      .map(queryKey => `    mutate(matchesKey(${queryKey}));\n`)
+      .join('');
+
+    return TemplateEngine.process(SWR_MUTATION_HOOK_TEMPLATE, {
+      methodName: `use${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}`,
+      serviceMethodName: operation.methodName,
+      // Identifies the mutation only, the queries it affects are revalidated by their own keys
+      mutationKey: `${resourceName}.${operation.methodName}`,
+      // SWR's trigger takes no argument when the extra argument type is never
+      variablesType: operation.parameters.length > 0 ? this.getVariablesType(operation) : 'never',
+      fetcherParams: operation.parameters.length > 0 ? `_key, { arg: ${this.getMutationVariables(operation, names)} }` : '',
+      serviceRequest: this.getServiceRequest(operation, names),
+      revalidations,
+      ...this.getResultTypes(operation)
     });
-    
-    console.log(`Generated ${Object.keys(serviceGroups).length} service stubs from OpenAPI spec for hook generation`);
-  }
-  
-  private generateOperationId(method: string, path: string): string {
-    // Convert path parameters from {param} to ByParam
-    const pathFormatted = path.replace(/{([^}]+)}/g, (_, param) => 
-      'By' + param.charAt(0).toUpperCase() + param.slice(1)
-    );
-    
-    // Extract resource name from path
-    const parts = pathFormatted.split('/').filter(p => p.length > 0);
-    const resourceName = parts.length > 0 ? parts[parts.length - 1] : 'resource';
-    
-    // Generate operation based on method and resource
-    switch (method.toLowerCase()) {
-      case 'get':
-        // If path ends with an ID parameter, it's a "get by id" operation
-        if (path.match(/\/[^/]*{[^}]+}$/)) {
-          return `get${resourceName.charAt(0).toUpperCase() + resourceName.slice(1, -1) || resourceName}`;
+  }
+
+  /**
+   * One `createApi` slice with the endpoints of every service. Queries provide tags for what they
+   * read and mutations invalidate the tags of what they change, following the paths like the query keys do.
+   */
+  private generateRtkQueryApi(sources: HookSource[]): string {
+    const hooksDir = this.getOutputDirectory('hooks');
+    const endpoints: string[] = [];
+    const hookNames: string[] = [];
+    const tagTypes = new Set<string>();
+    const serviceImports: string[] = [];
+
+    sources.forEach(source => {
+      if (source.operations.length === 0) {
+        console.log(`No service methods found in ${source.serviceName}`);
+        return;
+      }
+
+      const resourceName = source.serviceName.replace('Service', '');
+      source.operations.forEach(operation => {
+        const hookName = `use${operation.methodName.charAt(0).toUpperCase() + operation.methodName.slice(1)}${operation.isQuery ? 'Query' : 'Mutation'}`;
+        if (hookNames.includes(`  ${hookName}`)) {
+          console.warn(`Skipping ${source.serviceName}.${operation.methodName}: another service already has an endpoint with that name`);
+          return;
         }
-        return `list${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'post':
-        return `create${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'put':
-        return `update${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'patch':
-        return `patch${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'delete':
-        return `delete${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      default:
-        return `${method.toLowerCase()}${resourceName.charAt(0).toUpperCase() + resourceName.slice(1)}`;
+        endpoints.push(this.generateRtkQueryEndpoint(resourceName, operation, tagTypes));
+        hookNames.push(`  ${hookName}`);
+      });
+      serviceImports.push(`import { ${source.serviceImports.join(', ')} } from '${this.getImportPath(hooksDir, source.serviceFile)}';\n`);
+    });
+
+    if (endpoints.length === 0) {
+      return '';
+    }
+
+    const operations = sources.flatMap(source => source.operations);
+    const typeNames = Array.from(new Set(sources.flatMap(source => source.typeNames)));
+    const imports = [
+      this.getTypeImports(typeNames),
+      ...serviceImports,
+      ...this.getServiceResultImports(operations, ['ServiceData']).map(line => `${line}\n`)
+    ].join('');
+
+    return TemplateEngine.process(RTK_QUERY_API_TEMPLATE, {
+      imports,
+      reducerPath: 'api',
+      tagTypes: Array.from(tagTypes).map(tagType => `'${tagType}'`).join(', '),
+      endpoints: endpoints.join(''),
+      hookNames: hookNames.join(',\n')
+    });
+  }
+
+  /**
+   * Queries take their parameters as one object, mutations the same variables as the other backends
+   */
+  private generateRtkQueryEndpoint(resourceName: string, operation: HookOperation, tagTypes: Set<string>): string {
+    const names = operation.parameters.map(parameter => parameter.name);
+    let argType = this.getVariablesType(operation);
+    let params = operation.parameters.length > 0 ? this.getMutationVariables(operation, names) : '';
+    if (operation.isQuery && operation.parameters.length > 0) {
+      const allOptional = operation.parameters.every(parameter => parameter.optional);
+      // An argument of type void can be left out when calling the hook
+      argType = `${this.getParametersType(operation.parameters)}${allOptional ? ' | void' : ''}`;
+      params = `{ ${names.join(', ')} }${allOptional ? ' = {}' : ''}`;
+    }
+
+    return TemplateEngine.process(RTK_QUERY_ENDPOINT_TEMPLATE, {
+      endpointName: operation.methodName,
+      builderMethod: operation.isQuery ? 'query' : 'mutation',
+      argType,
+      params,
+      serviceRequest: this.getServiceRequest(operation, names),
+      tagsOption: operation.isQuery ? 'providesTags' : 'invalidatesTags',
+      tags: this.getTags(resourceName, operation, tagTypes),
+      ...this.getResultTypes(operation)
+    });
+  }
+
+  /**
+   * The tags mirror the query keys: a collection outside of any item (GET /clubs, GET /clubs/all) is
+   * `{ type: 'Club', id: 'LIST' }`, an item along with everything nested below it `{ type: 'Club', id }`
+   * and any other path below the resource the bare type, which invalidates all of them. Mutations
+   * invalidate what getAffectedKeys would.
+   */
+  private getTags(resourceName: string, operation: HookOperation, tagTypes: Set<string>): string {
+    const resource = this.getResourcePath(operation);
+    if (!resource) {
+      tagTypes.add(resourceName);
+      return `['${resourceName}']`;
+    }
+
+    const tagType = this.getTagType(resource);
+    tagTypes.add(tagType);
+
+    const depth = resource.segments.length;
+    const lastParameter = resource.segments.map(segment => segment.isParameter).lastIndexOf(true);
+    const listed = operation.isQuery && this.isListCollection(operation, resource);
+    const depths = listed ? [0] : operation.isQuery || lastParameter < 0 ? [depth] : [lastParameter, lastParameter + 1];
+    const tags = Array.from(new Set(depths.map(tagDepth => {
+      if (tagDepth === 0) {
+        return `{ type: '${tagType}', id: 'LIST' }`;
+      }
+      const [first] = resource.segments;
+      const id = first.key === 'id' ? 'id' : `id: ${first.key}`;
+      return first.isParameter ? `{ type: '${tagType}', ${id} }` : `'${tagType}'`;
+    })));
+
+    // Item tags read the id from the endpoint's argument
+    const [first] = resource.segments;
+    if (!first?.isParameter || depths.every(tagDepth => tagDepth === 0)) {
+      return `[${tags.join(', ')}]`;
+    }
+    const arg = operation.isQuery ? `{ ${first.key} }` : this.getMutationVariables(operation, [first.key]);
+    return `(_result, _error, ${arg}) => [${tags.join(', ')}]`;
+  }
+
+  /**
+   * `Club` for the `clubKeys` resource
+   */
+  private getTagType(resource: ResourcePath): string {
+    const name = resource.keysName.replace(/Keys$/, '');
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  /**
+   * Updates and deletes of a single item (PUT/PATCH/DELETE on a path ending with its id) can patch
+   * the cached detail and lists before the server answers: updates merge the request body into
+   * the cached item, deletes drop it from the lists
+   */
+  private getOptimisticUpdate(operation: HookOperation): TemplateVariables | null {
+    const resource = this.getResourcePath(operation);
+    const isUpdate = operation.method === 'PUT' || operation.method === 'PATCH';
+    const body = operation.parameters.find(parameter => parameter.name === 'data' && !parameter.pathName);
+    const item = resource?.segments[resource.segments.length - 1];
+    if (!resource || !item?.isParameter || !(operation.method === 'DELETE' || (isUpdate && body))) {
+      return null;
+    }
+
+    const depth = resource.segments.length;
+    const queryKeys = `[${this.getPathKey(resource, depth - 1)}, ${this.getPathKey(resource, depth)}]`;
+    const pathNames = operation.parameters.filter(parameter => parameter.pathName).map(parameter => parameter.name);
+    const updateItem = isUpdate ? '(item) => mergeItem(item, data)' : '() => undefined';
+
+    return {
+      mutateVariables: this.getMutationVariables(operation, isUpdate ? [...pathNames, 'data'] : pathNames),
+      settledVariables: this.getMutationVariables(operation, pathNames),
+      optimisticUpdate: `applyOptimisticUpdate(queryClient, ${queryKeys}, ${item.key}, ${updateItem})`
+    };
+  }
+
+  /**
+   * A mutation receives a single variables argument: nothing, its only parameter or an object of all of them
+   */
+  private getVariablesType(operation: HookOperation): string {
+    if (operation.parameters.length === 0) {
+      return 'void';
+    }
+    if (operation.parameters.length === 1) {
+      const [parameter] = operation.parameters;
+      return parameter.optional ? `${parameter.type} | undefined` : parameter.type;
     }
+    return this.getParametersType(operation.parameters);
+  }
+
+  /**
+   * Destructures the named values from the variables a mutation was called with
+   */
+  private getMutationVariables(operation: HookOperation, names: string[]): string {
+    return operation.parameters.length === 1 ? operation.parameters[0].name : `{ ${names.join(', ')} }`;
+  }
+
+  /**
+   * Collections are keyed by `list(params)`, items by `detail(id)` and anything nested below an
+   * item extends its detail key, so invalidating a detail also refreshes its sub-resources
+   */
+  private getQueryKey(resourceName: string, operation: HookOperation): string {
+    const resource = this.getResourcePath(operation);
+    const keyed = operation.parameters.filter(parameter => parameter.inQueryKey);
+    if (!resource) {
+      const keyNames = keyed.map(parameter => parameter.name);
+      return `['${resourceName}', '${operation.methodName}'${keyNames.length > 0 ? `, ${keyNames.join(', ')}` : ''}]`;
+    }
+
+    const keyNames = keyed.filter(parameter => !parameter.pathName).map(parameter => parameter.name);
+    const params = keyNames.length > 0 ? `{ ${keyNames.join(', ')} }` : '';
+    // Other collections of the resource (GET /clubs/all) sit with its lists, which mutations invalidate
+    if (resource.segments.length > 0 && this.isListCollection(operation, resource)) {
+      const elements = [...resource.segments.map(segment => segment.key), ...(params ? [params] : [])];
+      return `[...${resource.keysName}.lists(), ${elements.join(', ')}]`;
+    }
+    return resource.segments.length === 0
+      ? `${resource.keysName}.list(${params})`
+      : this.getPathKey(resource, resource.segments.length, params);
+  }
+
+  /**
+   * A mutation invalidates the item its path points at (with everything nested below it) and the
+   * collection holding that item, or the parent item when nested in one (POST /clubs/{id}/members);
+   * paths without parameters invalidate their collection, or the whole resource for actions like
+   * POST /reports/refresh
+   */
+  private getInvalidations(resourceName: string, operation: HookOperation): TemplateVariables {
+    // The path parameters are read back from the mutation variables
+    const pathNames = operation.parameters.filter(parameter => parameter.pathName).map(parameter => parameter.name);
+    const invalidationVariables = pathNames.length > 0 && this.getResourcePath(operation)
+      ? `      const [, ${this.getMutationVariables(operation, pathNames)}] = args;\n`
+      : '';
+
+    return {
+      invalidationVariables,
+      invalidations: this.getAffectedKeys(resourceName, operation)
+        .map(queryKey => `      queryClient.invalidateQueries({ queryKey: ${queryKey} });\n`)
+        .join('')
+    };
+  }
+
+  /**
+   * Keys of the queries a mutation affects, see getInvalidations
+   */
+  private getAffectedKeys(resourceName: string, operation: HookOperation): string[] {
+    const resource = this.getResourcePath(operation);
+    if (!resource) {
+      return [`['${resourceName}']`];
+    }
+
+    const parameters = resource.segments.map(segment => segment.isParameter);
+    const lastParameter = parameters.lastIndexOf(true);
+    if (lastParameter < 0) {
+      return [resource.segments.length === 0 ? `${resource.keysName}.lists()` : `${resource.keysName}.all`];
+    }
+
+    // The parent item's key also covers the nested collection and item, which are extensions of it
+    const parentParameter = parameters.slice(0, lastParameter).lastIndexOf(true);
+    return parentParameter < 0
+      ? [this.getPathKey(resource, lastParameter), this.getPathKey(resource, lastParameter + 1)]
+      : [this.getPathKey(resource, parentParameter + 1)];
+  }
+
+  /**
+   * Whether the operation reads a collection outside of any item, such collections are listed
+   * with the resource's lists so that creating, updating or deleting an item refreshes them
+   */
+  private isListCollection(operation: HookOperation, resource: ResourcePath): boolean {
+    return operation.isCollection && resource.segments.every(segment => !segment.isParameter);
+  }
+
+  /**
+   * Key of the first `depth` segments below the resource
+   */
+  private getPathKey(resource: ResourcePath, depth: number, params = ''): string {
+    const segments = resource.segments.slice(0, depth);
+    if (segments.length === 0) {
+      return `${resource.keysName}.lists()`;
+    }
+
+    const [first, ...rest] = segments;
+    const base = first.isParameter ? `${resource.keysName}.detail(${first.key})` : `${resource.keysName}.all`;
+    const elements = (first.isParameter ? rest : segments).map(segment => segment.key);
+    if (params) {
+      elements.push(params);
+    }
+    return elements.length > 0 ? `[...${base}, ${elements.join(', ')}]` : base;
+  }
+
+  /**
+   * Null when the path is unknown or one of its placeholders has no matching parameter,
+   * such operations keep keys scoped to their method
+   */
+  private getResourcePath(operation: HookOperation): ResourcePath | null {
+    if (!operation.path) {
+      return null;
+    }
+
+    const identifiers = new Map(operation.parameters
+      .filter(parameter => parameter.pathName)
+      .map(parameter => [parameter.pathName!, parameter.name]));
+    const pathSegments = operation.path.split('/').filter(segment => segment.length > 0);
+    const isResource = pathSegments.length > 0 && !/^{[^}]+}$/.test(pathSegments[0]);
+    const resource = isResource ? pathSegments.shift()! : 'root';
+
+    const segments: ResourcePath['segments'] = [];
+    for (const segment of pathSegments) {
+      const placeholder = segment.match(/^{([^}]+)}$/)?.[1];
+      if (placeholder && !identifiers.has(placeholder)) {
+        return null;
+      }
+      segments.push(placeholder
+        ? { key: identifiers.get(placeholder)!, isParameter: true }
+        : { key: `'${segment}'`, isParameter: false });
+    }
+
+    return { keysName: this.getKeysName(resource), segments };
+  }
+
+  /**
+   * `clubKeys` for /clubs, falling back to the plural when two resources share a singular
+   */
+  private getKeysName(resource: string): string {
+    const word = resource.replace(/[^A-Za-z0-9_-]/g, '') || 'root';
+    let keysName = `${this.toCamelCase(singularize(word))}Keys`;
+    if (this._queryKeys.has(keysName) && this._queryKeys.get(keysName) !== resource) {
+      keysName = `${this.toCamelCase(word)}Keys`;
+    }
+    this._queryKeys.set(keysName, resource);
+    return keysName;
+  }
+
+  private generateQueryKeys(): string {
+    const factories = Array.from(this._queryKeys.entries())
+      .map(([keysName, resource]) => TemplateEngine.process(QUERY_KEYS_TEMPLATE, { keysName, resource }))
+      .join('');
+    return `// Auto-generated query key factories from API spec\n${factories}`;
+  }
+
+  private getTypeImports(typeNames: string[]): string {
+    return typeNames.length > 0
+      ? `import type { ${typeNames.join(', ')} } from '${this.getImportPath(this.getOutputDirectory('hooks'), this.getOutputDirectory('types'))}';\n`
+      : '';
+  }
+
+  /**
+   * Result types and unwrapping, needed when some operation resolves to a service result
+   */
+  private getServiceResultImports(operations: HookOperation[], typeNames = ['ServiceData', 'ServiceError']): string[] {
+    return operations.some(operation => operation.returnsResult)
+      ? [`import type { ${typeNames.join(', ')} } from './service-results';`, `import { unwrapResult } from './service-results';`]
+      : [];
+  }
+
+  private getQueryKeyImports(operations: HookOperation[]): string[] {
+    const keysNames = new Set(operations.flatMap(operation => this.getResourcePath(operation)?.keysName ?? []));
+    return keysNames.size > 0 ? [`import { ${Array.from(keysNames).join(', ')} } from './query-keys';`] : [];
+  }
+
+  private getServiceCall(operation: HookOperation): string {
+    return operation.accessor ? `${operation.accessor}.${operation.methodName}` : operation.methodName;
+  }
+
+  /**
+   * Service results are unwrapped, so that the hooks resolve to the data and fail with the error results
+   */
+  private getServiceRequest(operation: HookOperation, args: string[]): string {
+    const call = `${this.getServiceCall(operation)}(${args.join(', ')})`;
+    return operation.returnsResult ? `unwrapResult(${call})` : call;
+  }
+
+  private getResultTypes(operation: HookOperation): TemplateVariables {
+    const serviceType = `typeof ${this.getServiceCall(operation)}`;
+    return operation.returnsResult
+      ? { dataType: `ServiceData<${serviceType}>`, errorType: `ServiceError<${serviceType}>` }
+      : { dataType: `Awaited<ReturnType<${serviceType}>>`, errorType: 'Error' };
+  }
+
+  private getParametersType(parameters: HookParameter[]): string {
+    return `{ ${parameters.map(parameter => `${parameter.name}${parameter.optional ? '?' : ''}: ${parameter.type}`).join('; ')} }`;
   }
 }
@@ -1,6 +1,6 @@
 import { BaseGenerator } from '../BaseGenerator.js';
 import { FileSystemAPI } from '../FileSystem.js';
-import { EndpointInfo, HttpMethod } from '../types.js';
+import { EndpointInfo } from '../types.js';
 
 export class MocksGenerator extends BaseGenerator {
   private _generatedMocks: Map<string, string> = new Map();
@@ -541,27 +541,14 @@ export const ${serviceName.toLowerCase()}Mock = new ${serviceName}Mock();
   private groupEndpointsByTag(): Record<string, EndpointInfo[]> {
     const groups: Record<string, EndpointInfo[]> = {};
     
-    Object.entries(this.spec.paths).forEach(([path, methods]) => {
-      Object.entries(methods).forEach(([method, endpoint]) => {
-        const httpMethod = method.toUpperCase() as HttpMethod;
-        const tags = endpoint.tags || ['default'];
-        const operationId = (endpoint as any).operationId || `${httpMethod.toLowerCase()}${path.replace(/[{}]/g, '').replace(/\//g, '_')}`;
-        
-        const endpointInfo: EndpointInfo = {
-          path,
-          method: httpMethod,
-          endpoint,
-          operationId
-        };
-        
-        tags.forEach(tag => {
-          const serviceName = this.toPascalCase(tag);
-          if (!groups[serviceName]) {
-            groups[serviceName] = [];
-          }
-          groups[serviceName].push(endpointInfo);
-        });
-      });
+    // Same grouping and method names as the generated services
+    this.getApiModel().services.forEach(service => {
+      groups[this.toPascalCase(service.tag)] = service.operations.map(operation => ({
+        path: operation.path,
+        method: operation.method,
+        endpoint: operation.endpoint,
+        operationId: operation.name
+      }));
     });
     
     return groups;
@@ -1,9 +1,13 @@
 import { BaseGenerator } from '../BaseGenerator.js';
 import { FileSystemAPI } from '../FileSystem.js';
 import { SchemaDefinition, SchemaReference } from '../types.js';
+import { SchemaDependencyGraph } from '../core/SchemaDependencyGraph.js';
 
 export class SchemasGenerator extends BaseGenerator {
   private _generatedSchemas: Map<string, string> = new Map();
+  private _schemaImports: Map<string, Set<string>> = new Map();
+  private _dependencyGraph?: SchemaDependencyGraph;
+  private _currentSchemaName: string | null = null;
   
   protected getGeneratorKey(): string {
     return 'schemas';
@@ -17,26 +21,12 @@ export class SchemasGenerator extends BaseGenerator {
     this.saveFiles(fs);
   }
     generate(): Map<string, string> {
-    // Process paths to identify schemas used in request bodies
-    const requestBodySchemas = new Set<string>();
-
-    // Scan all paths to identify schemas used in request bodies
-    Object.entries(this.spec.paths || {}).forEach(([path, methods]) => {
-      Object.entries(methods || {}).forEach(([method, endpoint]) => {
-        // Process request bodies for all methods
-        if (endpoint.requestBody?.content?.['application/json']?.schema) {
-          const schema = endpoint.requestBody.content['application/json'].schema;
-          if ('$ref' in schema) {
-            const schemaName = this.extractNameFromRef(schema.$ref);
-            requestBodySchemas.add(schemaName);
-          }
-        }
-      });
-    });
-
-    // Always generate schemas for all types for validation purposes
-    Object.entries(this.spec.components.schemas).forEach(([name, schema]) => {
-      const zodSchema = this.generateZodSchema(name, schema as SchemaDefinition);
+    // Always generate schemas for all types for validation purposes,
+    // dependencies first so the index re-exports them in declaration order
+    const schemas = this.spec.components.schemas;
+    this._dependencyGraph = new SchemaDependencyGraph(schemas, schema => this.getSchemaRefName(schema));
+    this._dependencyGraph.getDeclarationOrder().forEach(name => {
+      const zodSchema = this.generateZodSchema(name, schemas[name] as SchemaDefinition);
       this._generatedSchemas.set(name, zodSchema);
     });
     
@@ -48,12 +38,16 @@ export class SchemasGenerator extends BaseGenerator {
     fs.ensureDirectoryExists(schemasDir);
     
     let indexFileContent = '// Auto-generated schemas from API spec\nimport { z } from \'zod\';\n\n';
+    const typesPath = this.getImportPath(schemasDir, this.getOutputDirectory('types'));
     
     this._generatedSchemas.forEach((content, name) => {
       const fileName = `${this.toKebabCase(name)}.schema.ts`;
       const filePath = fs.joinPath(schemasDir, fileName);
       
-      const contentWithImport = 'import { z } from \'zod\';\nimport { ' + name + ' } from \'../types\';\n\n' + content;
+      const schemaImports = Array.from(this._schemaImports.get(name) || [])
+        .map(dependency => `import { ${dependency}Schema } from './${this.toKebabCase(dependency)}.schema';\n`)
+        .join('');
+      const contentWithImport = 'import { z } from \'zod\';\nimport type { ' + name + ' } from \'' + typesPath + '\';\n' + schemaImports + '\n' + content;
       fs.writeFile(filePath, contentWithImport);
       
       indexFileContent += `export * from './${this.toKebabCase(name)}.schema';\n`;
@@ -63,43 +57,193 @@ export class SchemasGenerator extends BaseGenerator {
   }
   
   private generateZodSchema(name: string, schema: SchemaDefinition): string {
-    const zodSchema = this.getZodFromSchema(schema);
-    return `export const ${name}Schema = ${zodSchema};\n`;
+    this._currentSchemaName = name;
+    this._schemaImports.set(name, new Set());
+    
+    // The root is generated in place; only nested references point to other schema constants
+    const zodSchema = this.applyZodModifiers(schema, this.getZodBaseFromSchema(schema));
+    const isCyclic = this.isCyclicSchema(name);
+    
+    // Schemas in a reference cycle need an explicit type, TypeScript cannot infer through z.lazy
+    const annotation = isCyclic ? `: z.ZodType<${name}, z.ZodTypeDef, unknown>` : '';
+    let content = `export const ${name}Schema${annotation} = ${zodSchema};\n`;
+    
+    // Request payloads never carry readOnly properties (used by generated forms)
+    const requestName = this.getRequestTypeName(name, schema);
+    if (requestName !== name && this.isOmittableSchema(schema) && !isCyclic) {
+      const omitted = this.getReadOnlyProperties(schema).map(prop => `${prop}: true`).join(', ');
+      content += `\nexport const ${requestName}Schema = ${name}Schema.omit({ ${omitted} });\n`;
+    }
+    
+    this._currentSchemaName = null;
+    return content;
+  }
+
+  private isCyclicSchema(name: string | null): boolean {
+    return !!name && !!this._dependencyGraph?.isCyclic(name);
+  }
+
+  private isOmittableSchema(schema: SchemaDefinition): boolean {
+    return this.isObjectLikeSchema(schema) && schema.default === undefined;
   }
   
   private getZodFromSchema(schema: any): string {
-    if (schema.$ref) {
-      const refName = this.extractNameFromRef(schema.$ref);
-      return `${refName}Schema`;
+    const refName = this.getSchemaRefName(schema);
+    if (refName) {
+      return this.getZodReference(refName);
     }
+
+    return this.applyZodModifiers(schema, this.getZodBaseFromSchema(schema));
+  }
+
+  /**
+   * Named schemas are referenced through their generated constant, imported from its own file;
+   * references back into the current reference cycle are deferred with z.lazy
+   */
+  private getZodReference(refName: string): string {
+    const currentName = this._currentSchemaName;
+    if (currentName && refName !== currentName) {
+      this._schemaImports.get(currentName)?.add(refName);
+    }
+    if (currentName && this._dependencyGraph?.isLazyReference(currentName, refName)) {
+      return `z.lazy(() => ${refName}Schema)`;
+    }
+    return `${refName}Schema`;
+  }
+
+  /**
+   * `.nullable()` for nullable schemas and `.default()` for declared defaults
+   */
+  private applyZodModifiers(schema: any, zodSchema: string): string {
+    let result = zodSchema;
+    if (this.isNullableSchema(schema) && result !== 'z.null()') {
+      result += '.nullable()';
+    }
+    if (schema.default !== undefined) {
+      result += `.default(${this.formatLiteral(schema.default)})`;
+    }
+    return result;
+  }
+
+  private getZodBaseFromSchema(schema: any): string {
+    if (schema.const !== undefined) {
+      return `z.literal(${this.formatLiteral(schema.const)})`;
+    }
+
+    if (schema.oneOf || schema.anyOf) {
+      return this.getZodUnion(schema);
+    }
+
+    if (schema.allOf) {
+      return this.getZodComposition(schema);
+    }
+
+    const types = this.getSchemaTypes(schema);
+    const nonNullTypes = types.filter(type => type !== 'null');
+    if (types.length > 0 && nonNullTypes.length === 0) {
+      return 'z.null()';
+    }
+
+    return nonNullTypes.length > 1
+      ? `z.union([${nonNullTypes.map(type => this.getZodForSchemaType(type, schema)).join(', ')}])`
+      : this.getZodForSchemaType(nonNullTypes[0], schema);
+  }
+
+  /**
+   * oneOf/anyOf map to z.discriminatedUnion when every variant is an object that can carry
+   * a literal discriminator, otherwise to a plain z.union
+   */
+  private getZodUnion(schema: any): string {
+    const variants = this.getSchemaVariants(schema);
+    const propertyName: string | undefined = schema.discriminator?.propertyName;
+
+    if (variants.length === 0) {
+      return 'z.any()';
+    }
+    if (variants.length === 1) {
+      return this.getZodFromSchema(variants[0].schema);
+    }
+
+    // .extend() needs the variant's z.object, which cyclic schemas hide behind their z.ZodType annotation
+    if (propertyName && variants.every(variant =>
+      variant.discriminatorValue !== null && this.isObjectLikeSchema(variant.schema) && !this.isCyclicSchema(variant.name)
+    )) {
+      const options = variants.map(variant =>
+        `${this.getZodFromSchema(variant.schema)}.extend({ ${propertyName}: z.literal(${this.formatLiteral(variant.discriminatorValue)}) })`
+      );
+      return `z.discriminatedUnion('${propertyName}', [${options.join(', ')}])`;
+    }
+
+    return `z.union([${variants.map(variant => this.getZodFromSchema(variant.schema)).join(', ')}])`;
+  }
+
+  /**
+   * allOf of object schemas is merged into a single z.object so it can still be extended,
+   * other compositions fall back to an intersection
+   */
+  private getZodComposition(schema: any): string {
+    if (this.isObjectLikeSchema(schema)) {
+      return this.getZodObject(this.getObjectProperties(schema), this.getRequiredProperties(schema));
+    }
+
+    const { allOf, ...ownSchema } = schema;
+    const members = allOf.map((member: any) => this.getZodFromSchema(member));
+    if (ownSchema.properties) {
+      members.push(this.getZodFromSchema(ownSchema));
+    }
+    return members.reduce((composed: string, member: string) => `${composed}.and(${member})`);
+  }
+
+  private isObjectLikeSchema(schema: any): boolean {
+    if (!schema || schema.oneOf || schema.anyOf || this.isNullableSchema(schema)) {
+      return false;
+    }
+    if (schema.allOf) {
+      return schema.allOf.every((member: any) => this.isObjectLikeSchema(member));
+    }
+    return this.getSchemaType(schema) === 'object';
+  }
+
+  private getZodObject(properties: Record<string, any>, required: string[]): string {
+    const propSchemas = Object.entries(properties).map(([key, val]) => {
+      const zodValue = this.getZodFromSchema(val);
+      // A default already makes the key optional on input; .optional() would skip the default
+      const isOptional = !required.includes(key) && val?.default === undefined;
+      return `    ${key}: ${isOptional ? `${zodValue}.optional()` : zodValue}`;
+    }).join(',\n');
     
-    switch (schema.type) {
-      case 'object': {
-        const properties = schema.properties || {};
-        const required = schema.required || [];
-        
-        const propSchemas = Object.entries(properties).map(([key, val]) => {
-          const zodValue = this.getZodFromSchema(val);
-          return `    ${key}: ${required.includes(key) ? zodValue : `${zodValue}.optional()`}`;
-        }).join(',\n');
-        
-        return `z.object({\n${propSchemas}\n  })`;
-      }
+    return `z.object({\n${propSchemas}\n  })`;
+  }
+
+  private getZodForSchemaType(type: string | undefined, schema: any): string {
+    switch (type) {
+      case 'object':
+        return this.getZodObject(schema.properties || {}, schema.required || []);
       case 'array':
-        return `z.array(${this.getZodFromSchema(schema.items)})`;
+        if (schema.prefixItems) {
+          const tupleItems = schema.prefixItems.map((item: any) => this.getZodFromSchema(item)).join(', ');
+          const rest = schema.items ? `.rest(${this.getZodFromSchema(schema.items)})` : '';
+          return `z.tuple([${tupleItems}])${rest}`;
+        }
+        return `z.array(${schema.items ? this.getZodFromSchema(schema.items) : 'z.any()'})${this.getZodConstraints(schema, type)}`;
       case 'string':
         if (schema.enum) {
-          return `z.enum([${schema.enum.map((e: string) => `'${e}'`).join(', ')}])`;
+          return `z.enum([${this.getEnumValues(schema, type).map(value => this.formatLiteral(value)).join(', ')}])`;
         }
-        if (schema.format === 'email') {
-          return 'z.string().email()';
+        if (schema.format === 'binary') {
+          return 'z.instanceof(Blob)';
         }
-        return 'z.string()';
+        return `z.string()${this.getZodConstraints(schema, type)}`;
       case 'number':
       case 'integer':
-        return 'z.number()';
-      case 'boolean':
-        return 'z.boolean()';
+      case 'boolean': {
+        // z.enum only takes strings, other enums are unions of literals
+        if (schema.enum) {
+          const literals = this.getEnumValues(schema, type).map(value => `z.literal(${this.formatLiteral(value)})`);
+          return literals.length > 1 ? `z.union([${literals.join(', ')}])` : literals[0];
+        }
+        return type === 'boolean' ? 'z.boolean()' : `z.number()${this.getZodConstraints(schema, type)}`;
+      }
       default:
         return 'z.any()';
     }
@@ -1,17 +1,23 @@
 import { BaseGenerator } from '../BaseGenerator.js';
 import { FileSystemAPI } from '../FileSystem.js';
-import { EndpointInfo, HttpMethod } from '../types.js';
-
-// Define response wrapper types locally
-export interface ResponseOnSuccess<T> {
-  status: 'success';
-  data: T;
-}
-
-export interface ResponseOnError {
-  status: 'error';
-  message: string;
-}
+import { HttpClient, SchemaDefinition, ServiceOutputStyle } from '../types.js';
+import { ApiBody, ApiOperation, ApiParameter, ApiResponse } from '../core/ApiModel.js';
+import { TemplateEngine } from '../core/TemplateEngine.js';
+import {
+  CORE_OPENAPI_TEMPLATE,
+  CORE_REQUEST_TEMPLATE,
+  CORE_QUERY_SERIALIZER_TEMPLATE,
+  CORE_CLIENT_TEMPLATE,
+  CORE_PAGINATION_TEMPLATE,
+  CORE_VALIDATION_TEMPLATE,
+  CORE_AUTH_TEMPLATE,
+  CORE_SECURITY_TEMPLATE,
+  CORE_CANCELABLE_PROMISE_TEMPLATE,
+  CORE_ERRORS_TEMPLATE,
+  CORE_API_CLIENT_TEMPLATE,
+  CORE_HTTP_ADAPTER_TEMPLATES
+} from '../templates/core.template.js';
+import path from 'path';
 
 export class ServicesGenerator extends BaseGenerator {
   private _generatedServices: Map<string, string> = new Map();
@@ -22,12 +28,13 @@ export class ServicesGenerator extends BaseGenerator {
 
   protected performGeneration(): Map<string, string> {
     this.notifyObservers('generation_started', { generator: 'services' });
+    if (this.getOutputStyle() === 'functions') {
+      this.assertUniqueFunctionNames();
+    }
     
-    const serviceGroups = this.groupEndpointsByTag();
-    
-    Object.entries(serviceGroups).forEach(([serviceName, endpoints]) => {
-      const serviceCode = this.generateServiceClass(serviceName, endpoints);
-      this._generatedServices.set(serviceName, serviceCode);
+    this.getApiModel().services.forEach(service => {
+      const serviceCode = this.generateServiceClass(service.name, service.operations);
+      this._generatedServices.set(service.name, serviceCode);
     });
 
     this.notifyObservers('generation_completed', { 
@@ -50,295 +57,515 @@ export class ServicesGenerator extends BaseGenerator {
       
       fs.writeFile(filePath, content);
       
-      const exportName = name.charAt(0).toLowerCase() + name.slice(1);
-      indexFileContent += `export { ${name}, ${exportName} } from './${this.toKebabCase(name)}';\n`;
+      if (this.getOutputStyle() === 'functions') {
+        indexFileContent += `export * from './${this.toKebabCase(name)}';\n`;
+      } else {
+        const exportName = name.charAt(0).toLowerCase() + name.slice(1);
+        indexFileContent += `export { ${name}, ${exportName} } from './${this.toKebabCase(name)}';\n`;
+      }
     });
 
     this.createIndexFile(servicesDir, indexFileContent, fs);
+    this.generateCoreFiles(fs);
   }
 
-  // Keep old public methods for backward compatibility
-  generate(): Map<string, string> {
-    return super.generate();
+  /**
+   * Runtime imported by every service: configuration, request function, cancelable
+   * promise, error types and the adapter of the configured HTTP client
+   */
+  private generateCoreFiles(fileSystem: FileSystemAPI): void {
+    const coreDir = this.getCoreDirectory();
+    fileSystem.ensureDirectoryExists(coreDir);
+
+    const httpClient = this.getHttpClient();
+    const coreFiles: Record<string, string> = {
+      'adapter.ts': CORE_HTTP_ADAPTER_TEMPLATES[httpClient],
+      'OpenAPI.ts': TemplateEngine.process(CORE_OPENAPI_TEMPLATE, {
+        baseUrl: this.spec.servers?.[0]?.url || '',
+        version: this.spec.info?.version || '',
+        responseValidation: this.getResponseValidation()
+      }),
+      'request.ts': CORE_REQUEST_TEMPLATE,
+      'querySerializer.ts': CORE_QUERY_SERIALIZER_TEMPLATE,
+      'client.ts': CORE_CLIENT_TEMPLATE,
+      'pagination.ts': CORE_PAGINATION_TEMPLATE,
+      'validation.ts': CORE_VALIDATION_TEMPLATE,
+      'auth.ts': CORE_AUTH_TEMPLATE,
+      'security.ts': TemplateEngine.process(CORE_SECURITY_TEMPLATE, {
+        securitySchemes: this.getSecuritySchemes()
+      }),
+      'CancelablePromise.ts': CORE_CANCELABLE_PROMISE_TEMPLATE,
+      'Errors.ts': CORE_ERRORS_TEMPLATE
+    };
+
+    // The fetch adapter is built on ApiClient
+    if (httpClient === 'fetch') {
+      coreFiles['ApiClient.ts'] = CORE_API_CLIENT_TEMPLATE;
+    }
+
+    Object.entries(coreFiles).forEach(([fileName, content]) => {
+      fileSystem.writeFile(fileSystem.joinPath(coreDir, fileName), content);
+    });
   }
-  
-  saveFiles(fs: FileSystemAPI): void {
-    super.saveFiles(fs);
+
+  /**
+   * One ResponseOnError member per declared status code, carrying that response's body type;
+   * other statuses, network failures and cancellations are an UnexpectedError typed after
+   * the `default`/range responses, if any
+   */
+  private getErrorUnion(operation: ApiOperation, usedTypes: Set<string>, validatesResponse: boolean): {
+    typeName: string;
+    declaration: string;
+    statusCodes: number[];
+    messages: string[];
+  } {
+    const baseName = `${this.toPascalCase(operation.name)}Error`;
+    const typeName = this.getApiModel().getSchema(baseName) ? `${this.toPascalCase(operation.name)}OperationError` : baseName;
+
+    const getBodyType = (response: ApiResponse): string => {
+      if (response.schemaName) {
+        usedTypes.add(response.schemaName);
+        return response.schemaName;
+      }
+      return response.schema ? this.getTypeFromSchema(response.schema) : 'unknown';
+    };
+
+    const declared = operation.errorResponses.filter(response => /^\d{3}$/.test(response.statusCode));
+    const fallback = operation.errorResponses.filter(response => !/^\d{3}$/.test(response.statusCode));
+    const fallbackTypes = Array.from(new Set(fallback.map(getBodyType)));
+
+    const members = declared.map(response => `ResponseOnError<${response.statusCode}, ${getBodyType(response)}>`);
+    members.push(fallbackTypes.length > 0 ? `UnexpectedError<${fallbackTypes.join(' | ')}>` : 'UnexpectedError');
+    if (validatesResponse) {
+      members.push('ResponseValidationError');
+    }
+
+    return {
+      typeName,
+      declaration: `export type ${typeName} =\n  | ${members.join('\n  | ')};`,
+      statusCodes: declared.map(response => Number(response.statusCode)),
+      messages: declared
+        .filter(response => response.description)
+        .map(response => `${response.statusCode}: ${this.formatLiteral(response.description)}`)
+    };
   }
-  
-  private groupEndpointsByTag(): Record<string, EndpointInfo[]> {
-    const groups: Record<string, EndpointInfo[]> = {};
 
-    Object.entries(this.spec.paths).forEach(([path, methods]) => {
-      Object.entries(methods).forEach(([method, endpoint]) => {
-        const tag = endpoint.tags?.[0] || 'Default';
-        const serviceName = `${tag}Service`;
+  /**
+   * JSON bodies are serialized by the client, form bodies are built from the object's
+   * fields and other media types are sent as they are
+   */
+  private getRequestBodyOptions(requestBody: ApiBody): string {
+    switch (requestBody.kind) {
+      case 'multipart':
+      case 'urlencoded':
+        return `formData: data,\n      mediaType: '${requestBody.mediaType}',\n      `;
+      case 'raw':
+        return `body: data,\n      mediaType: '${requestBody.mediaType}',\n      `;
+      default:
+        return `requestBody: data,\n      mediaType: '${requestBody.mediaType}',\n      `;
+    }
+  }
 
-        if (!groups[serviceName]) {
-          groups[serviceName] = [];
-        }
+  /**
+   * `components.securitySchemes` as the runtime's SecurityScheme objects
+   */
+  private getSecuritySchemes(): string {
+    const schemes = Object.entries(this.spec.components?.securitySchemes || {});
+    if (schemes.length === 0) {
+      return '{}';
+    }
 
-        groups[serviceName].push({
-          path,
-          method: method.toUpperCase() as HttpMethod,
-          endpoint,
-          operationId: this.generateOperationId(method, path),
-        });
-      });
+    const entries = schemes.map(([name, scheme]) => {
+      const fields = [`name: ${this.formatLiteral(name)}`, `type: ${this.formatLiteral(scheme.type)}`];
+      if (scheme.scheme) fields.push(`scheme: ${this.formatLiteral(scheme.scheme)}`);
+      if (scheme.in) fields.push(`in: ${this.formatLiteral(scheme.in)}`);
+      if (scheme.name) fields.push(`parameterName: ${this.formatLiteral(scheme.name)}`);
+      const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : this.formatLiteral(name);
+      return `  ${key}: { ${fields.join(', ')} },`;
     });
+    return `{\n${entries.join('\n')}\n}`;
+  }
 
-    return groups;
+  /**
+   * Scheme names of each alternative requirement; `[]` marks an operation callable without credentials
+   */
+  private getSecurityRequirements(operation: ApiOperation): string {
+    const schemes = this.spec.components?.securitySchemes || {};
+    const requirements = (operation.security || []).map(requirement => {
+      const names = Object.keys(requirement);
+      names
+        .filter(name => !schemes[name])
+        .forEach(name => console.warn(`${operation.method} ${operation.path}: unknown security scheme "${name}"`));
+      return `[${names.map(name => this.formatLiteral(name)).join(', ')}]`;
+    });
+    return `[${requirements.join(', ')}]`;
   }
-  
-  private generateOperationId(method: string, path: string): string {
-    // Convert path parameters from {param} to ByParam
-    const pathFormatted = path.replace(/{([^}]+)}/g, (_, param) => 
-      'By' + param.charAt(0).toUpperCase() + param.slice(1)
-    );
-    
-    // Extract resource name from path
-    const parts = pathFormatted.split('/').filter(p => p.length > 0);
-    const resourceName = parts.length > 0 ? parts[parts.length - 1] : 'resource';
-    
-    // Generate operation based on method and resource
-    switch (method.toLowerCase()) {
-      case 'get':
-        // If path ends with an ID parameter, it's a "get by id" operation
-        if (path.match(/\/[^/]*{[^}]+}$/)) {
-          return `get${resourceName.charAt(0).toUpperCase() + resourceName.slice(1, -1) || resourceName}`;
+
+  /**
+   * `servicesGeneration.responseValidation`: the default of OpenAPI.VALIDATION; with 'off'
+   * no schemas are referenced, so services do not pull Zod into the bundle
+   */
+  private getResponseValidation(): 'strict' | 'warn' | 'off' {
+    const mode = this.config.options?.servicesGeneration?.responseValidation || 'off';
+    if (!['strict', 'warn', 'off'].includes(mode)) {
+      throw new Error(`Unknown servicesGeneration.responseValidation "${mode}", expected "strict", "warn" or "off"`);
+    }
+    return mode;
+  }
+
+  /**
+   * Zod schema of a JSON success body, for named schemas and arrays of them
+   */
+  private getResponseSchema(operation: ApiOperation): string | null {
+    const response = operation.successResponse;
+    if (this.getResponseValidation() === 'off' || !response?.schema || response.kind !== 'json') {
+      return null;
+    }
+    if (response.schemaName) {
+      return `${response.schemaName}Schema`;
+    }
+    if (response.collection?.kind === 'array' && response.collection.itemSchemaName) {
+      return `${response.collection.itemSchemaName}Schema.array()`;
+    }
+    return null;
+  }
+
+  /**
+   * View class generated for a response schema (`ClubView` for `Club`), null when the views
+   * generator writes none for it and the data is returned as is
+   */
+  private getViewTypeName(schemaName: string): string | null {
+    const hasView = this.getApiModel().getViewSchemas().some(({ name }) => name === schemaName);
+    return hasView ? `${schemaName}View` : null;
+  }
+
+  /**
+   * Serialization of the query parameters that are not exploded form, the default of the
+   * shared query serializer
+   */
+  private getQueryStyles(parameters: ApiParameter[]): string[] {
+    return parameters
+      .filter(parameter => parameter.style !== 'form' || !parameter.explode)
+      .map(parameter => {
+        let style = parameter.style;
+        if (!['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'].includes(style)) {
+          console.warn(`Query parameter "${parameter.name}" cannot use style "${style}", serializing it as form`);
+          style = 'form';
         }
-        return `list${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'post':
-        return `create${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'put':
-        return `update${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'patch':
-        return `patch${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      case 'delete':
-        return `delete${resourceName.charAt(0).toUpperCase() + resourceName.slice(0, -1) || resourceName}`;
-      default:
-        return `${method.toLowerCase()}${resourceName.charAt(0).toUpperCase() + resourceName.slice(1)}`;
+        const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(parameter.name) ? parameter.name : `'${parameter.name}'`;
+        return `${key}: { style: '${style}', explode: ${parameter.explode} }`;
+      });
+  }
+
+  /**
+   * Method parameters; an optional parameter followed by a required one cannot be
+   * omitted positionally and is typed `T | undefined` instead
+   */
+  private getSignatureParameters(parameters: { name: string; type: string; optional: boolean }[]): string[] {
+    return parameters.map((parameter, index) => {
+      if (!parameter.optional) {
+        return `${parameter.name}: ${parameter.type}`;
+      }
+      return parameters.slice(index + 1).every(next => next.optional)
+        ? `${parameter.name}?: ${parameter.type}`
+        : `${parameter.name}: ${parameter.type} | undefined`;
+    });
+  }
+
+  /**
+   * `servicesGeneration.outputStyle`: a class with a singleton per tag (default), or one
+   * exported function per operation so bundlers can drop the unused ones
+   */
+  private getOutputStyle(): ServiceOutputStyle {
+    const outputStyle = this.config.options?.servicesGeneration?.outputStyle || 'class';
+    if (outputStyle !== 'class' && outputStyle !== 'functions') {
+      throw new Error(`Unknown servicesGeneration.outputStyle "${outputStyle}", expected "class" or "functions"`);
+    }
+    return outputStyle;
+  }
+
+  /**
+   * Functions of every tag are exported from the services index, so their names must not clash
+   */
+  private assertUniqueFunctionNames(): void {
+    const byName = new Map<string, string[]>();
+    this.getApiModel().operations.forEach(({ name, method, path }) => {
+      byName.set(name, [...(byName.get(name) || []), `${method} ${path}`]);
+    });
+
+    const duplicates = Array.from(byName.entries()).filter(([, endpoints]) => endpoints.length > 1);
+    if (duplicates.length > 0) {
+      const details = duplicates
+        .map(([name, endpoints]) => `  ${name}: ${endpoints.join(', ')}`)
+        .join('\n');
+      throw new Error(`Duplicate function names across services:\n${details}\nSet a unique operationId on these operations.`);
+    }
+  }
+
+  /**
+   * `servicesGeneration.binaryResponseType`: files are returned as Blob (default) or ArrayBuffer
+   */
+  private getBinaryResponseType(): 'Blob' | 'ArrayBuffer' {
+    return this.config.options?.servicesGeneration?.binaryResponseType === 'arraybuffer' ? 'ArrayBuffer' : 'Blob';
+  }
+
+  /**
+   * `servicesGeneration.httpClient`, falling back to the legacy `useAxios` flag
+   */
+  private getHttpClient(): HttpClient {
+    const options = this.config.options?.servicesGeneration || {};
+    const httpClient = options.httpClient || (options.useAxios ? 'axios' : 'fetch');
+
+    if (!(httpClient in CORE_HTTP_ADAPTER_TEMPLATES)) {
+      throw new Error(`Unknown servicesGeneration.httpClient "${httpClient}", expected one of: ${Object.keys(CORE_HTTP_ADAPTER_TEMPLATES).join(', ')}`);
     }
+    return httpClient;
+  }
+
+  // Keep old public methods for backward compatibility
+  generate(): Map<string, string> {
+    return super.generate();
+  }
+  
+  saveFiles(fs: FileSystemAPI): void {
+    super.saveFiles(fs);
   }
   
-  private generateServiceClass(serviceName: string, endpoints: EndpointInfo[]): string {
+  private generateServiceClass(serviceName: string, operations: ApiOperation[]): string {
     const className = serviceName;
     const instanceName = serviceName.charAt(0).toLowerCase() + serviceName.slice(1);
+    const asFunctions = this.getOutputStyle() === 'functions';
     
     // Generate imports for types used in endpoints
     const usedTypes = new Set<string>();
     const viewTypes = new Set<string>();
-    
-    endpoints.forEach(endpoint => {
-      // Add request body type if exists
-      const requestBodySchema = this.getRequestBodySchema(endpoint);
-      if (requestBodySchema && '$ref' in requestBodySchema) {
-        const typeName = this.extractNameFromRef(requestBodySchema.$ref);
-        usedTypes.add(typeName);
-      }
-      
-      // Add response type if exists
-      const responseBodySchema = this.getResponseBodySchema(endpoint);
-      if (responseBodySchema && '$ref' in responseBodySchema) {
-        const typeName = this.extractNameFromRef(responseBodySchema.$ref);
-        usedTypes.add(typeName);
-        
-        // Add corresponding view type for responses
-        const viewTypeName = typeName.replace(/DTO$|View$/, '');
-        viewTypes.add(viewTypeName);
-      }
-    });
+    const errorTypes: string[] = [];
+    let usesFileDownload = false;
+    let usesPagination = false;
+    const schemaImports = new Set<string>();
+    this.referencedTypeNames.clear();
     
     // Generate service methods
-    const methods = endpoints.map(endpoint => {
-      // Process request parameters
-      const pathParams = (endpoint.endpoint.parameters || [])
-        .filter(p => p.in === 'path')
-        .map(p => `${p.name}: ${this.getTypeFromSchema(p.schema)}`);
-        
-      const queryParams = (endpoint.endpoint.parameters || [])
-        .filter(p => p.in === 'query')
-        .map(p => `${p.name}${p.required ? '' : '?'}: ${this.getTypeFromSchema(p.schema)}`);
+    const methods = operations.map(operation => {
+      // Failures the operation declares, as a discriminated union exported next to the service
+      const responseSchema = this.getResponseSchema(operation);
+      if (responseSchema) {
+        schemaImports.add(responseSchema.replace(/\.array\(\)$/, ''));
+      }
+      const errorUnion = this.getErrorUnion(operation, usedTypes, !!responseSchema);
+      errorTypes.push(errorUnion.declaration);
+      const errorTypeName = errorUnion.typeName;
+
+      // Path, query, header and cookie parameters, then the request body
+      const signature: { name: string; type: string; optional: boolean }[] = [
+        ...operation.pathParameters,
+        ...operation.queryParameters,
+        ...operation.headerParameters,
+        ...operation.cookieParameters
+      ].map(p => ({ name: p.identifier, type: this.getTypeFromSchema(p.schema), optional: !p.required }));
       
       // Process request body
-      let requestBodyParam = '';
-      const requestBodySchema = this.getRequestBodySchema(endpoint);
-      if (requestBodySchema) {
-        const isRequired = endpoint.endpoint.requestBody?.required ?? true;
-        if ('$ref' in requestBodySchema) {
-          const typeName = this.extractNameFromRef(requestBodySchema.$ref);
-          requestBodyParam = `data${isRequired ? '' : '?'}: ${typeName}`;
-          usedTypes.add(typeName);
-        } else {
-          requestBodyParam = `data${isRequired ? '' : '?'}: any`;
+      const requestBody = operation.requestBody;
+      if (requestBody) {
+        let type = this.getTypeFromSchema(requestBody.schema);
+        if (requestBody.schemaName) {
+          // Request bodies never carry readOnly properties
+          type = this.getRequestTypeName(requestBody.schemaName, requestBody.schema as SchemaDefinition);
+          usedTypes.add(type);
         }
+        signature.push({ name: 'data', type, optional: !requestBody.required });
       }
       
-      // Combine all parameters
-      const allParams = [...pathParams, ...queryParams];
-      if (requestBodyParam) allParams.push(requestBodyParam);
-      const paramsString = allParams.join(', ');      // Generate return type
-      const responseBodySchema = this.getResponseBodySchema(endpoint);
-      let returnType = 'CancelablePromise<ResponseOnSuccess<void> | ResponseOnError>';
+      // Per-call request options (headers, timeout, signal) come last
+      const paramsString = [...this.getSignatureParameters(signature), 'requestOptions?: RequestOptions'].join(', ');      // Generate return type
+      const responseBodySchema = operation.successResponse?.schema;
+      let returnType = `CancelablePromise<ResponseOnSuccess<void> | ${errorTypeName}>`;
       let responseDataType = 'void';
-      let isArrayResponse = false;
-      let viewTypeName = '';
       let rawResponseType = 'void';
+      let responseData = 'undefined';
       
-      if (responseBodySchema) {
-        if ('$ref' in responseBodySchema) {
-          const typeName = this.extractNameFromRef(responseBodySchema.$ref);
-          viewTypeName = `${typeName.replace(/DTO$|View$/, '')}`;
-          rawResponseType = typeName;
+      const responseKind = operation.successResponse?.kind || 'json';
+      if (responseBodySchema && responseKind !== 'json') {
+        // Files come back with the name from Content-Disposition, text as is
+        responseDataType = responseKind === 'binary' ? `FileDownload<${this.getBinaryResponseType()}>` : 'string';
+        rawResponseType = responseDataType;
+        responseData = 'response';
+        usesFileDownload = usesFileDownload || responseKind === 'binary';
+      } else if (responseBodySchema) {
+        // The shape comes from the response schema: array, paginated envelope or single object
+        const responseSchemaName = operation.successResponse?.schemaName;
+        const collection = operation.successResponse?.collection;
+        rawResponseType = responseSchemaName || this.getTypeFromSchema(responseBodySchema);
+        if (responseSchemaName) {
+          usedTypes.add(responseSchemaName);
+        }
+        
+        if (collection) {
+          // Items are wrapped in their generated view, items without one are returned as they are
+          const itemViewName = collection.itemSchemaName ? this.getViewTypeName(collection.itemSchemaName) : null;
+          const itemType = itemViewName || this.getTypeFromSchema(collection.itemSchema);
+          const mapItem = itemViewName ? `item => new ${itemViewName}(item)` : '';
+          if (itemViewName) {
+            viewTypes.add(itemViewName);
+          }
           
-          // Check if it's an array response by looking at the operation ID and HTTP method
-          isArrayResponse = endpoint.method === 'GET' && 
-            !endpoint.path.match(/\/[^/]*{[^}]+}$/) || // Not ending with a path param
-            endpoint.operationId.startsWith('list') || 
-            endpoint.operationId.startsWith('getAll');
-            
-          if (isArrayResponse) {
-            responseDataType = `${viewTypeName}[]`;
-            rawResponseType = `${typeName}[]`;
-            returnType = `CancelablePromise<ResponseOnSuccess<${viewTypeName}[]> | ResponseOnError>`;
+          if (collection.kind === 'paginated') {
+            const itemsProperty = this.formatLiteral(collection.itemsProperty);
+            responseDataType = `Paginated<${itemType}, Omit<${rawResponseType}, ${itemsProperty}>>`;
+            responseData = `toPaginated(response, ${itemsProperty}${mapItem ? `, ${mapItem}` : ''})`;
+            usesPagination = true;
           } else {
-            responseDataType = viewTypeName;
-            returnType = `CancelablePromise<ResponseOnSuccess<${viewTypeName}> | ResponseOnError>`;
+            responseDataType = `${this.wrapArrayItemType(itemType)}[]`;
+            responseData = mapItem ? `response.map(${mapItem})` : 'response';
           }
-          
-          usedTypes.add(typeName);
+        } else if (responseSchemaName && this.getViewTypeName(responseSchemaName)) {
+          const viewTypeName = this.getViewTypeName(responseSchemaName)!;
+          responseDataType = viewTypeName;
+          responseData = `new ${viewTypeName}(response)`;
           viewTypes.add(viewTypeName);
         } else {
-          responseDataType = 'any';
-          rawResponseType = 'any';
-          returnType = 'CancelablePromise<ResponseOnSuccess<any> | ResponseOnError>';
+          responseDataType = rawResponseType;
+          responseData = 'response';
         }
       }
+      returnType = `CancelablePromise<ResponseOnSuccess<${responseDataType}> | ${errorTypeName}>`;
       
-      // Format URL with path parameters
-      let url = endpoint.path;
-      (endpoint.endpoint.parameters || [])
-        .filter(p => p.in === 'path')
-        .forEach(p => {
-          url = url.replace(`{${p.name}}`, `\${${p.name}}`);
-        });
-      
-      // Handle query parameters
-      let queryParamsCode = '';
-      if (queryParams.length > 0) {
-        queryParamsCode = `
-    // Add query parameters
-    const params = new URLSearchParams();
-    ${(endpoint.endpoint.parameters || [])
-      .filter(p => p.in === 'query')
-      .map(p => {
-        const accessor = p.required ? p.name : `${p.name} !== undefined ? ${p.name} : null`;
-        return `if (${accessor} !== null) params.append('${p.name}', String(${p.name}));`;
-      }).join('\n    ')}
-    const queryString = params.toString();
-    const urlWithParams = queryString ? \`\${url}?\${queryString}\` : url;`;
-      }      // Generate service method
-      const methodName = endpoint.operationId;
-      const method = endpoint.method.toLowerCase();
-      
-      // Extract API endpoint path parameters
-      const pathParamNames = (endpoint.endpoint.parameters || [])
-        .filter(p => p.in === 'path')
-        .map(p => p.name);
-      
-      // Extract API endpoint query parameters
-      const queryParamNames = (endpoint.endpoint.parameters || [])
-        .filter(p => p.in === 'query')
-        .map(p => p.name);
+      const methodName = operation.name;
+      const method = operation.method.toLowerCase();
       
       // Create request options object structure
       let requestOptionsStructure = '';
-        // Add path params if present
-      if (pathParamNames.length > 0) {
-        requestOptionsStructure += `path: {
-        ${pathParamNames.map(p => `${p}`).join(',\n        ')}
+      const parameterGroups: [string, ApiParameter[]][] = [
+        ['path', operation.pathParameters],
+        ['query', operation.queryParameters],
+        ['headers', operation.headerParameters],
+        ['cookies', operation.cookieParameters]
+      ];
+      parameterGroups.forEach(([key, parameters]) => {
+        if (parameters.length > 0) {
+          requestOptionsStructure += `${key}: {
+        ${parameters.map(p => p.name === p.identifier ? p.name : `'${p.name}': ${p.identifier}`).join(',\n        ')}
+      },\n      `;
+        }
+      });
+      const queryStyles = this.getQueryStyles(operation.queryParameters);
+      if (queryStyles.length > 0) {
+        requestOptionsStructure += `queryStyles: {
+        ${queryStyles.join(',\n        ')}
       },\n      `;
       }
       
-      // Add query params if present
-      if (queryParamNames.length > 0) {
-        requestOptionsStructure += `query: {
-        ${queryParamNames.map(p => `${p}`).join(',\n        ')}
-      },\n      `;
+      // Add request body if present
+      if (requestBody) {
+        requestOptionsStructure += this.getRequestBodyOptions(requestBody!);
+      }
+      if (responseBodySchema && responseKind !== 'json') {
+        const responseType = responseKind === 'binary' ? this.getBinaryResponseType().toLowerCase() : 'text';
+        requestOptionsStructure += `responseType: '${responseType}',\n      `;
+      }
+      if (responseSchema) {
+        requestOptionsStructure += `responseSchema: ${responseSchema},\n      `;
       }
-        // Add request body if present
-      if (requestBodyParam) {
-        requestOptionsStructure += `requestBody: data,\n      `;
+      if (operation.security) {
+        requestOptionsStructure += `security: ${this.getSecurityRequirements(operation)},\n      `;
+      }
+      // Response descriptions become the messages of the matching errors
+      if (errorUnion.messages.length > 0) {
+        requestOptionsStructure += `errors: {
+        ${errorUnion.messages.join(',\n        ')}
+      },\n      `;
       }
+      requestOptionsStructure += `requestOptions,\n      `;
       
-      return `
+      // Functions send through the client they are given instead of the class' request method
+      const declaration = asFunctions
+        ? `export function ${methodName}(${paramsString}, client: ServiceClient = defaultClient): ${returnType}`
+        : `${methodName}(${paramsString}): ${returnType}`;
+      const requestCall = asFunctions ? `request<${rawResponseType}>(client.config, ` : `this.request<${rawResponseType}>(`;
+      
+      const code = `
   /**
-   * ${endpoint.endpoint.summary || `${methodName} - ${method.toUpperCase()} ${endpoint.path}`}
+   * ${operation.summary || `${methodName} - ${method.toUpperCase()} ${operation.path}`}
    * @returns ${returnType}
    */
-  ${methodName}(${paramsString}): ${returnType} {
-    return this.request<${rawResponseType}>({
+  ${declaration} {
+    return ${requestCall}{
       method: '${method.toUpperCase()}',
-      url: '${endpoint.path}',
+      url: '${operation.path}',
       ${requestOptionsStructure.length > 0 ? requestOptionsStructure : ''}
-    }).then(
+    }${asFunctions ? ', client.adapter' : ''}).then(
       (response): ResponseOnSuccess<${responseDataType}> => ({
         status: 'success' as const,
-        ${responseDataType === 'void' ? 
-          'data: undefined' : 
-          isArrayResponse ? 
-            'data: response.map(item => new ' + viewTypeName + '(item))' : 
-            'data: new ' + viewTypeName + '(response)'
-        }
-      })
-    ).catch(
-      (error): ResponseOnError => ({
-        status: 'error' as const,
-        message: (error as Error).message
+        data: ${responseData}
       })
-    );
+    ).catch(toResponseOnError<${errorTypeName}>([${errorUnion.statusCodes.join(', ')}]));
   }`;
-    }).join('\n');    // Create service class with singleton pattern
+      return asFunctions ? code.replace(/^  /gm, '') : code;
+    }).join('\n');
+
+    // Named schemas used by parameter types
+    this.referencedTypeNames.forEach(typeName => usedTypes.add(typeName));
+
+    // Create service class with singleton pattern
+    const servicesDir = this.getOutputDirectory();
+    const typesPath = this.getImportPath(servicesDir, this.getOutputDirectory('types'));
+    const corePath = this.getImportPath(servicesDir, this.getCoreDirectory());
     const typeImports = Array.from(usedTypes).length > 0 
-      ? `import { ${Array.from(usedTypes).join(', ')} } from '../types';\n` 
+      ? `import type { ${Array.from(usedTypes).join(', ')} } from '${typesPath}';\n` 
       : '';
     
-    // Add imports for entity/view classes
-    const entityImports = Array.from(viewTypes).map(viewType => 
-      `import { ${viewType} } from './entities/${viewType}.entity';`
+    // View classes the responses are wrapped in, from the views generator's output
+    const viewsDir = this.getOutputDirectory('views');
+    const viewImports = Array.from(viewTypes).map(viewType =>
+      `import { ${viewType} } from '${this.getImportPath(servicesDir, path.join(viewsDir, this.toKebabCase(viewType)))}';`
     ).join('\n');
     
     // Add import for response types if used 
-    const responseImports = `import type { ResponseOnSuccess, ResponseOnError } from '@core/Errors';`;
+    const validationImport = schemaImports.size > 0 ? ', ResponseValidationError' : '';
+    const responseImports = `import type { ResponseOnSuccess, ResponseOnError, UnexpectedError${validationImport} } from '${corePath}/Errors';
+import { toResponseOnError } from '${corePath}/Errors';`;
       // Add import for API client types
-    const apiClientImports = `import { OpenAPI } from '../core/OpenAPI';
-import { request } from '../core/request';
-import { CancelablePromise } from '../core/CancelablePromise';`;
+    const fileDownloadImport = usesFileDownload ? ', FileDownload' : '';
+    const apiClientImports = asFunctions
+      ? `import { request } from '${corePath}/request';
+import type { RequestOptions${fileDownloadImport} } from '${corePath}/request';
+import { defaultClient } from '${corePath}/client';
+import type { ServiceClient } from '${corePath}/client';
+import type { CancelablePromise } from '${corePath}/CancelablePromise';`
+      : `import { OpenAPI } from '${corePath}/OpenAPI';
+import { request } from '${corePath}/request';
+import type { ApiRequestOptions, RequestOptions${fileDownloadImport} } from '${corePath}/request';
+import { CancelablePromise } from '${corePath}/CancelablePromise';`;
+    
+    const paginationImports = usesPagination
+      ? `import { toPaginated } from '${corePath}/pagination';
+import type { Paginated } from '${corePath}/pagination';`
+      : '';
+    
+    const schemasPath = this.getImportPath(servicesDir, this.getOutputDirectory('schemas'));
+    const schemaImportsCode = schemaImports.size > 0
+      ? `import { ${Array.from(schemaImports).join(', ')} } from '${schemasPath}';`
+      : '';
     
-    const allImports = [typeImports, entityImports, responseImports, apiClientImports]
+    const allImports = [typeImports, viewImports, responseImports, apiClientImports, paginationImports, schemaImportsCode]
       .filter(Boolean).join('\n') + '\n\n';
     
-    return `${allImports}/**
+    if (asFunctions) {
+      return `${allImports}${errorTypes.join('\n')}\n
+// ${serviceName.replace('Service', '')} endpoints, one function per operation
+${methods}
+`;
+    }
+    
+    return `${allImports}${errorTypes.join('\n')}\n\n/**
  * ${serviceName} - API client for ${serviceName.replace('Service', '')} endpoints
  */
 export class ${className} {  /**
    * Request method that handles API calls and maps responses
    */
-  private request<T>(options: {
-    method: string;
-    url: string;
-    path?: Record<string, any>;
-    query?: Record<string, any>;
-    body?: any;
-    requestBody?: any;
-    mediaType?: string;
-    responseHeader?: string;
-    errors?: Record<number, string>;
-  }): CancelablePromise<T> {
-    return request<T>(OpenAPI, {
-      ...options,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  private request<T>(options: ApiRequestOptions): CancelablePromise<T> {
+    // Content-Type comes from the operation's mediaType, set only when it sends a body
+    return request<T>(OpenAPI, options);
   }${methods}
 }
 
@@ -346,52 +573,4 @@ export class ${className} {  /**
 export const ${instanceName} = new ${className}();
 `;
   }
-  
-  private getRequestBodySchema(endpoint: EndpointInfo) {
-    if (!endpoint.endpoint.requestBody?.content?.['application/json']?.schema) return null;
-    
-    return endpoint.endpoint.requestBody.content['application/json'].schema;
-  }
-  
-  private getResponseBodySchema(endpoint: EndpointInfo) {
-    // Look for 200 or 201 response
-    const successResponse = endpoint.endpoint.responses['200'] || 
-                           endpoint.endpoint.responses['201'];
-    
-    if (!successResponse?.content?.['application/json']?.schema) return null;
-    
-    return successResponse.content['application/json'].schema;
-  }
-  
-  protected getTypeFromSchema(schema: any): string {
-    if (schema.$ref) {
-      return this.extractNameFromRef(schema.$ref);
-    }
-    
-    switch (schema.type) {
-      case 'string':
-        if (schema.enum) {
-          return schema.enum.map((e: string) => `'${e}'`).join(' | ');
-        }
-        return 'string';
-      case 'number':
-      case 'integer':
-        return 'number';
-      case 'boolean':
-        return 'boolean';
-      case 'array':
-        const itemType = schema.items ? this.getTypeFromSchema(schema.items) : 'any';
-        return `${itemType}[]`;
-      case 'object':
-        if (schema.properties) {
-          const propTypes = Object.entries(schema.properties).map(([key, val]) => 
-            `${key}: ${this.getTypeFromSchema(val)}`
-          ).join(', ');
-          return `{ ${propTypes} }`;
-        }
-        return 'Record<string, any>';
-      default:
-        return 'any';
-    }
-  }
 }
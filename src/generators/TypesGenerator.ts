@@ -13,8 +13,9 @@ export class TypesGenerator extends BaseGenerator {
     this.notifyObservers('generation_started', { generator: 'types' });
     
     Object.entries(this.spec.components.schemas).forEach(([name, schema]) => {
-      const typeDefinition = this.generateTypeDefinition(name, schema);
-      this._generatedTypes.set(name, typeDefinition);
+      this.referencedTypeNames.clear();
+      const typeDefinition = this.generateTypeDefinition(name, schema) + this.generateAccessTypeDefinitions(name, schema);
+      this._generatedTypes.set(name, this.generateTypeImports(name) + typeDefinition);
     });
 
     this.notifyObservers('generation_completed', { 
@@ -50,14 +51,48 @@ export class TypesGenerator extends BaseGenerator {
     super.saveFiles(fs);
   }
 
+  private generateTypeImports(name: string): string {
+    const imports = Array.from(this.referencedTypeNames)
+      .filter(typeName => typeName !== name)
+      .map(typeName => `import type { ${typeName} } from './${this.toKebabCase(typeName)}';`);
+
+    return imports.length > 0 ? `${imports.join('\n')}\n\n` : '';
+  }
+
+  /**
+   * Request types drop readOnly properties and response types drop writeOnly ones
+   */
+  private generateAccessTypeDefinitions(name: string, schema: SchemaDefinition): string {
+    let definitions = '';
+    
+    const requestName = this.getRequestTypeName(name, schema);
+    if (requestName !== name) {
+      const omitted = this.getReadOnlyProperties(schema).map(prop => `'${prop}'`).join(' | ');
+      definitions += `\nexport type ${requestName} = Omit<${name}, ${omitted}>;\n`;
+    }
+    
+    const responseName = this.getResponseTypeName(name, schema);
+    if (responseName !== name) {
+      const omitted = this.getWriteOnlyProperties(schema).map(prop => `'${prop}'`).join(' | ');
+      definitions += `\nexport type ${responseName} = Omit<${name}, ${omitted}>;\n`;
+    }
+    
+    return definitions;
+  }
+
   private generateTypeDefinition(name: string, schema: SchemaDefinition): string {
-    switch (schema.type) {
+    if (schema.const !== undefined || this.isNullableSchema(schema) ||
+        schema.oneOf || schema.anyOf || schema.allOf) {
+      return this.generatePrimitiveTypeDefinition(name, schema);
+    }
+
+    switch (this.getSchemaType(schema)) {
       case 'object':
         return this.generateObjectTypeDefinition(name, schema);
       case 'array':
         return this.generateArrayTypeDefinition(name, schema);
       default:
-        return this.generatePrimitiveTypeDefinition(schema);
+        return this.generatePrimitiveTypeDefinition(name, schema);
     }
   }
   
@@ -67,7 +102,7 @@ export class TypesGenerator extends BaseGenerator {
     
     const propertyDefinitions = Object.entries(properties).map(([propName, propSchema]) => {
       const isRequired = required.includes(propName);
-      const type = this.getTypeFromSchema(propSchema);
+      const type = this.getTypeReference(propSchema);
       return `  ${propName}${isRequired ? '' : '?'}: ${type};`;
     }).join('\n');
     
@@ -75,12 +110,10 @@ export class TypesGenerator extends BaseGenerator {
   }
   
   private generateArrayTypeDefinition(name: string, schema: SchemaDefinition): string {
-    const itemType = schema.items ? this.getTypeFromSchema(schema.items) : 'any';
-    
-    return `export type ${name} = ${itemType}[];\n`;
+    return `export type ${name} = ${this.getTypeFromSchema(schema)};\n`;
   }
   
-  private generatePrimitiveTypeDefinition(schema: SchemaDefinition): string {
-    return this.getTypeFromSchema(schema);
+  private generatePrimitiveTypeDefinition(name: string, schema: SchemaDefinition): string {
+    return `export type ${name} = ${this.getTypeFromSchema(schema)};\n`;
   }
 }
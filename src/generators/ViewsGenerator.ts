@@ -6,7 +6,10 @@ import {
   VIEW_CLASS_TEMPLATE, 
   VIEW_IMPORTS_TEMPLATE, 
   VIEW_GETTER_METHOD_TEMPLATE, 
-  VIEW_INDEX_TEMPLATE 
+  VIEW_INDEX_TEMPLATE,
+  VIEW_UNION_TEMPLATE,
+  VIEW_UNION_CASE_TEMPLATE,
+  VIEW_UNION_IMPORTS_TEMPLATE
 } from '../templates/view.template.js';
 import fs from 'fs';
 import path from 'path';
@@ -19,6 +22,7 @@ const __dirname = dirname(__filename);
 
 export class ViewsGenerator extends BaseGenerator {
   private _generatedViews: Map<string, string> = new Map();
+  private _unionViews: Set<string> = new Set();
   
   protected getGeneratorKey(): string {
     return 'views';
@@ -32,48 +36,23 @@ export class ViewsGenerator extends BaseGenerator {
     this.saveFiles(fs);
   }
   generate(): Map<string, string> {
-    // Process paths to identify schemas used in GET responses
-    const getResponseSchemas = new Set<string>();
-    const allRelevantSchemas = new Set<string>();
+    // Views cover the entities and every object returned by a GET, as listed by the shared API model
+    const viewSchemas = new Set(this.getApiModel().getViewSchemas().map(({ name }) => name));
 
-    // Scan all paths to identify schemas used in GET responses
-    Object.entries(this.spec.paths || {}).forEach(([path, methods]) => {
-      Object.entries(methods || {}).forEach(([method, endpoint]) => {
-        if (method.toUpperCase() === 'GET') {
-          // Process GET responses
-          const successResponse = endpoint.responses?.['200'] || endpoint.responses?.['201'];
-          if (successResponse?.content?.['application/json']?.schema) {
-            const schema = successResponse.content['application/json'].schema;            if ('$ref' in schema) {
-              const schemaName = this.extractNameFromRef(schema.$ref);
-              getResponseSchemas.add(schemaName);
-              allRelevantSchemas.add(schemaName);
-            }
-          }
-        }
-      });
-    });
-
-    // Also include schemas that are main entity types (not input/view/paginated types)
+    // Generate views for all relevant schemas
     Object.entries(this.spec.components.schemas).forEach(([name, schema]) => {
-      if ((schema as SchemaDefinition).type === 'object' && 
-          !name.endsWith('View') && 
-          !name.endsWith('Input') &&
-          !name.startsWith('Paginated') &&
-          !name.includes('Error') &&
-          !name.includes('Requirement') &&
-          !name.includes('Pagination')) {
-        allRelevantSchemas.add(name);
+      if (viewSchemas.has(name)) {
+        const viewCode = this.generateViewClass(name, schema as SchemaDefinition);
+        this._generatedViews.set(`${name}View`, viewCode);
       }
     });
 
-    // Generate views for all relevant schemas
+    // Discriminated unions get a view that dispatches to the variant views
     Object.entries(this.spec.components.schemas).forEach(([name, schema]) => {
-      if ((schema as SchemaDefinition).type === 'object' && 
-          !name.endsWith('View') && 
-          !name.includes('Error') &&
-          allRelevantSchemas.has(name)) {
-        const viewCode = this.generateViewClass(name, schema as SchemaDefinition);
-        this._generatedViews.set(`${name}View`, viewCode);
+      const unionView = this.generateUnionView(name, schema as SchemaDefinition);
+      if (unionView) {
+        this._generatedViews.set(`${name}View`, unionView);
+        this._unionViews.add(`${name}View`);
       }
     });
     
@@ -91,10 +70,13 @@ export class ViewsGenerator extends BaseGenerator {
       
       const baseName = name.replace('View', '');
       const imports = TemplateEngine.process(VIEW_IMPORTS_TEMPLATE, {
-        entityName: baseName
+        entityName: baseName,
+        typesPath: this.getImportPath(viewsDir, this.getOutputDirectory('types')),
+        schemasPath: this.getImportPath(viewsDir, this.getOutputDirectory('schemas'))
       });
       
-      const fullContent = `${imports}\n\n${content}`;
+      // Union views carry their own imports
+      const fullContent = this._unionViews.has(name) ? content : `${imports}\n\n${content}`;
       fs.writeFile(filePath, fullContent);
       
       exportStatements.push(`export * from './${this.toKebabCase(name)}';`);
@@ -105,11 +87,24 @@ export class ViewsGenerator extends BaseGenerator {
     });
     
     this.createIndexFile(viewsDir, indexContent, fs);
-  }  private generateViewClass(name: string, schema: SchemaDefinition): string {
+  }
+
+  private generateViewClass(name: string, viewSchema: SchemaDefinition): string {
+    // allOf compositions are flattened so the view exposes every inherited property,
+    // while writeOnly properties never come back from the server
+    const writeOnly = this.getWriteOnlyProperties(viewSchema);
+    const properties = Object.fromEntries(
+      Object.entries(this.getObjectProperties(viewSchema)).filter(([propName]) => !writeOnly.includes(propName))
+    );
+    const schema: SchemaDefinition = {
+      ...viewSchema,
+      properties,
+      required: this.getRequiredProperties(viewSchema).filter(propName => !writeOnly.includes(propName))
+    };
+
     // Generate template variables for data handling class only
     const variables: TemplateVariables = {
       entityName: name,
-      zodSchema: this.generateZodSchemaForView(name, schema),
       getterMethods: this.generateGetterMethods(schema),
       imports: '' // Will be handled separately in saveFiles
     };
@@ -121,59 +116,40 @@ export class ViewsGenerator extends BaseGenerator {
     return TemplateEngine.process(VIEW_CLASS_TEMPLATE, transformedVariables);
   }
 
-  private generateZodSchemaForView(name: string, schema: SchemaDefinition): string {
-    const zodProps: string[] = [];
-    
-    if (schema.properties) {
-      Object.entries(schema.properties).forEach(([propName, propSchema]: [string, any]) => {
-        const zodType = this.getZodType(propSchema);
-        const isRequired = schema.required?.includes(propName) ?? false;
-        
-        let zodProp = `  ${propName}: ${zodType}`;
-        if (!isRequired) {
-          zodProp += '.optional()';
-        }
-        
-        zodProps.push(zodProp);
-      });
+  private generateUnionView(name: string, schema: SchemaDefinition): string | null {
+    const discriminator = schema.discriminator?.propertyName;
+    if (!discriminator || !(schema.oneOf || schema.anyOf)) {
+      return null;
     }
-    
-    return `export const ${name}Schema = z.object({
-${zodProps.join(',\n')}
-});
-
-export type ${name} = z.infer<typeof ${name}Schema>;`;
-  }
 
-  private getZodType(propSchema: any): string {
-    if ('$ref' in propSchema) {
-      // For referenced schemas, use z.any() or create a basic object schema
-      return 'z.object({}).passthrough()';
-    }
-    
-    if (propSchema.type === 'array') {
-      const itemType = propSchema.items ? this.getZodType(propSchema.items) : 'z.any()';
-      return `z.array(${itemType})`;
-    }
-    
-    switch (propSchema.type) {
-      case 'string':
-        if (propSchema.format === 'email') return 'z.string().email()';
-        if (propSchema.format === 'date-time') return 'z.string().datetime()';
-        if (propSchema.format === 'date') return 'z.string().regex(/^\\d{4}-\\d{2}-\\d{2}$/)';
-        if (propSchema.enum) return `z.enum([${propSchema.enum.map((e: string) => `'${e}'`).join(', ')}])`;
-        return 'z.string()';
-      case 'number':
-        return 'z.number()';
-      case 'integer':
-        return 'z.number().int()';
-      case 'boolean':
-        return 'z.boolean()';
-      case 'object':
-        return 'z.object({}).passthrough()';
-      default:
-        return 'z.any()';
+    const variants = this.getSchemaVariants(schema);
+    const hasVariantViews = variants.length > 0 && variants.every(variant =>
+      variant.name !== null && variant.discriminatorValue !== null && this._generatedViews.has(`${variant.name}View`)
+    );
+    if (!hasVariantViews) {
+      return null;
     }
+
+    const variantNames = variants.map(variant => variant.name as string);
+    const imports = TemplateEngine.process(VIEW_UNION_IMPORTS_TEMPLATE, {
+      entityName: name,
+      variantTypes: variantNames.join(', '),
+      typesPath: this.getImportPath(this.getOutputDirectory('views'), this.getOutputDirectory('types')),
+      variantViewImports: variantNames
+        .map(variantName => `import { ${variantName}View } from './${this.toKebabCase(`${variantName}View`)}';`)
+        .join('\n')
+    });
+
+    return TemplateEngine.process(VIEW_UNION_TEMPLATE, {
+      imports,
+      entityName: name,
+      discriminator,
+      variantViews: variantNames.map(variantName => `${variantName}View`).join(' | '),
+      variantCases: variants.map(variant => TemplateEngine.process(VIEW_UNION_CASE_TEMPLATE, {
+        discriminatorValue: variant.discriminatorValue as string,
+        variantName: variant.name as string
+      })).join('\n')
+    });
   }
 
   private generateViewTemplate(name: string, schema: SchemaDefinition): string {
@@ -225,14 +201,16 @@ export type ${name} = z.infer<typeof ${name}Schema>;`;
       return refType;
     }
     
-    if (propSchema.type === 'array') {
+    const schemaType = this.getSchemaType(propSchema);
+    
+    if (schemaType === 'array') {
       const itemType = propSchema.items ? this.getPropertyType(propSchema.items) : 'any';
       return `${itemType}[]`;
     }
     
-    switch (propSchema.type) {
+    switch (schemaType) {
       case 'string':
-        return 'string';
+        return propSchema.format === 'binary' ? 'Blob' : 'string';
       case 'number':
       case 'integer':
         return 'number';
@@ -6,9 +6,10 @@ import { fileURLToPath } from "url"
 import { dirname } from "path"
 import { load as yamlLoad } from "js-yaml"
 import SwaggerParser from "@apidevtools/swagger-parser"
+import type { OpenAPI } from "openapi-types"
 // import { ApiContractBuilder } from "./APIContractBuilder.js"
 import { NodeFileSystem } from "./FileSystem.js"
-import { GeneratorOptions, OpenApiSpec } from "./types.js"
+import { GeneratorOptions, HooksBackend, HttpClient, OpenApiSpec, ServiceOutputStyle } from "./types.js"
 import { TypesGenerator } from "./generators/TypesGenerator.js"
 import { SchemasGenerator } from "./generators/SchemasGenerator.js"
 import { ServicesGenerator } from "./generators/ServicesGenerator.js"
@@ -17,6 +18,8 @@ import { ComponentsGenerator } from "./generators/ComponentsGenerator.js"
 import { ViewsGenerator } from "./generators/ViewsGenerator.js"
 import { MocksGenerator } from "./generators/MocksGenerator.js"
 import { FakesDataGenerator } from "./generators/FakesDataGenerator.js"
+import { SwaggerConverter } from "./core/SwaggerConverter.js"
+import { ApiModel, ApiModelBuilder } from "./core/ApiModel.js"
 
 // Get the equivalent of __dirname in ESM
 const __filename = fileURLToPath(import.meta.url)
@@ -63,15 +66,21 @@ interface GeneratorConfig {
       generateSchemaExports: boolean
     }
     servicesGeneration?: {
-      useAxios: boolean
+      httpClient?: HttpClient
+      outputStyle?: ServiceOutputStyle
+      binaryResponseType?: 'blob' | 'arraybuffer'
+      responseValidation?: 'strict' | 'warn' | 'off'
+      useAxios?: boolean
       includeComments: boolean
       addTypeAnnotations: boolean
     }
     hooksGeneration?: {
-      useReactQuery: boolean
+      backend?: HooksBackend
+      useReactQuery?: boolean
       includeInfiniteQueries: boolean
       includeMutations: boolean
       servicesInputPath: string | null
+      serviceStyle?: ServiceOutputStyle
     }
     componentsGeneration?: {
       useReactHookForm: boolean
@@ -105,6 +114,7 @@ interface GeneratorInstance {
   generate(): Map<string, any>
   saveFiles(fs: NodeFileSystem): void
   initializeSpec?(): Promise<void>
+  setApiModel?(model: ApiModel): void
 }
 
 // Configuration and utility classes
@@ -152,12 +162,14 @@ class SpecLoader {
       console.log(`Loading and dereferencing OpenAPI spec from: ${resolvedPath}`)
         try {
         // Use swagger-parser to properly parse, validate, and dereference the spec
-        const parsedApi = await SwaggerParser.dereference(resolvedPath)
-        const api = parsedApi as unknown as OpenApiSpec
+        const bundledApi = await SwaggerParser.bundle(resolvedPath)
+        const parsedApi = await SwaggerParser.dereference(SpecLoader.upgrade(bundledApi))
+        const api = SpecLoader.normalize(parsedApi)
         
         console.log(`✅ Successfully loaded and dereferenced OpenAPI spec`)
-        console.log(`   📋 Title: ${(api as any).info?.title || 'Unknown'}`)
-        console.log(`   🔢 Version: ${(api as any).info?.version || 'Unknown'}`)
+        console.log(`   📋 Title: ${api.info?.title || 'Unknown'}`)
+        console.log(`   🔢 Version: ${api.info?.version || 'Unknown'}`)
+        console.log(`   📐 OpenAPI: ${SpecLoader.detectVersion(api)}`)
         console.log(`   🛣️  Paths: ${Object.keys(api.paths || {}).length}`)
         console.log(`   📦 Schemas: ${Object.keys(api.components?.schemas || {}).length}`)
         
@@ -170,17 +182,62 @@ class SpecLoader {
         const specContent = fs.readFileSync(resolvedPath, "utf8")
 
         // Parse based on file extension
-        if (resolvedPath.endsWith(".yaml") || resolvedPath.endsWith(".yml")) {
-          return yamlLoad(specContent) as OpenApiSpec
-        } else {
-          return JSON.parse(specContent) as OpenApiSpec
-        }
+        const rawApi = resolvedPath.endsWith(".yaml") || resolvedPath.endsWith(".yml")
+          ? yamlLoad(specContent)
+          : JSON.parse(specContent)
+        return SpecLoader.normalize(SpecLoader.upgrade(rawApi))
       }
     } catch (error) {
       console.error("❌ Error loading or parsing specification:", error)
       process.exit(1)
     }
   }
+
+  static detectVersion(api: OpenApiSpec): string {
+    return api.openapi || "unknown"
+  }
+
+  /**
+   * Convert Swagger 2.0 documents to OpenAPI 3 before they reach the generators
+   */
+  private static upgrade(api: OpenAPI.Document): OpenAPI.Document {
+    if (!SwaggerConverter.isSwagger2(api)) {
+      return api
+    }
+
+    console.log(`🔄 Converting Swagger ${api.swagger} document to OpenAPI 3...`)
+    return SwaggerConverter.convert(api)
+  }
+
+  static isOpenApi31(api: OpenApiSpec): boolean {
+    return /^3\.1\./.test(api.openapi || "")
+  }
+
+  /**
+   * The generators read the document through OpenApiSpec, which declares the parts they use
+   */
+  private static normalize(document: OpenAPI.Document): OpenApiSpec {
+    const api = document as unknown as OpenApiSpec
+    if (!SpecLoader.isOpenApi31(api)) {
+      return api
+    }
+
+    // OpenAPI 3.1 makes `paths` and `components` optional (e.g. webhook-only documents)
+    api.paths = api.paths || {}
+    api.components = api.components || { schemas: {} }
+    api.components.schemas = api.components.schemas || {}
+
+    // Hoist `$defs` declared inside component schemas so they are generated as named types
+    Object.values(api.components.schemas).forEach((schema) => {
+      Object.entries(schema.$defs || {}).forEach(([name, definition]) => {
+        if (!api.components.schemas[name]) {
+          api.components.schemas[name] = definition
+        }
+      })
+    })
+
+    return api
+  }
 }
 
 class PathResolver {
@@ -262,6 +319,7 @@ class ApiGenerator {
 
   private async setupGeneration(options: GeneratorOptions): Promise<{
     spec: OpenApiSpec
+    model: ApiModel
     outputPath: string
     fs: NodeFileSystem
   }> {
@@ -270,8 +328,12 @@ class ApiGenerator {
     const spec = await SpecLoader.load(specPath)
     const fs = new NodeFileSystem()
 
+    // One normalized model of the spec shared by every generator of this run
+    const model = new ApiModelBuilder(spec).build()
+    console.log(`API model: ${model.services.length} services, ${model.operations.length} operations, ${model.schemas.length} schemas`)
+
     console.log(`Output directory: ${outputPath}`)
-    return { spec, outputPath, fs }
+    return { spec, model, outputPath, fs }
   }
 
   private logGenerationStep(step: number, title: string): void {
@@ -279,17 +341,18 @@ class ApiGenerator {
   }
   private async generateSingleType(
     type: string,
-    spec: OpenApiSpec,
+    model: ApiModel,
     outputPath: string,
     fs: NodeFileSystem,
     options?: any
   ): Promise<number> {
-    const generator = GeneratorFactory.createGenerator(type, spec, outputPath, options)
+    const generator = GeneratorFactory.createGenerator(type, model.spec, outputPath, options)
     
     // Initialize spec with proper dereferencing for complex schemas
     if (generator.initializeSpec) {
       await generator.initializeSpec();
     }
+    generator.setApiModel?.(model)
     
     // Special handling for hooks generator
     if (type === 'hooks' && generator instanceof HooksGenerator) {
@@ -301,17 +364,21 @@ class ApiGenerator {
     return generated.size
   }
 
+  /**
+   * Hooks come from the spec unless --input explicitly points at service files to parse,
+   * --backend overrides the configured hooks backend
+   */
   private setupHooksGenerator(
     hooksGenerator: HooksGenerator,
     outputPath: string,
     fs: NodeFileSystem,
     options?: any
   ): void {
-    const servicesPath = fs.joinPath(outputPath, "services")
-    try {
-      hooksGenerator.loadServicesFromDirectory(servicesPath, fs)
-    } catch (error) {
-      console.log("No services found in output directory, generating from spec instead")
+    if (options?.input) {
+      hooksGenerator.loadServicesFromDirectory(path.resolve(options.input), fs)
+    }
+    if (options?.backend) {
+      hooksGenerator.setBackend(options.backend)
     }
   }
 
@@ -321,7 +388,7 @@ class ApiGenerator {
     console.log(`Generated ${counts.schemas} Zod Schemas (for validation)`)
     console.log(`Generated ${counts.services} API Services`)
     console.log(`Generated ${counts.views} View Models (for GET responses only)`)
-    console.log(`Generated ${counts.hooks} React Query Hooks`)
+    console.log(`Generated ${counts.hooks} React Hooks`)
     console.log(`Generated ${counts.components.list} List Components (for GET responses)`)
     console.log(`Generated ${counts.components.createForm} Create Forms (for POST request bodies)`)
     console.log(`Generated ${counts.components.editForm} Edit Forms (for PUT/PATCH request bodies)`)
@@ -331,7 +398,7 @@ class ApiGenerator {
   }
 
   async generateAll(options: GeneratorOptions): Promise<void> {
-    const { spec, outputPath, fs } = await this.setupGeneration(options)
+    const { spec, model, outputPath, fs } = await this.setupGeneration(options)
     
     console.log("\n=== Generating All API Contracts ===\n")
 
@@ -348,24 +415,24 @@ class ApiGenerator {
 
     // Generate all types in sequence
     this.logGenerationStep(1, "Generating TypeScript Types")
-    counts.types = await this.generateSingleType('types', spec, outputPath, fs)
+    counts.types = await this.generateSingleType('types', model, outputPath, fs)
     console.log(`✓ Generated ${counts.types} TypeScript types`)
 
     this.logGenerationStep(2, "Generating Zod Schemas")
-    counts.schemas = await this.generateSingleType('schemas', spec, outputPath, fs)
+    counts.schemas = await this.generateSingleType('schemas', model, outputPath, fs)
     console.log(`✓ Generated ${counts.schemas} Zod schemas`)
 
     this.logGenerationStep(3, "Generating API Services")
-    counts.services = await this.generateSingleType('services', spec, outputPath, fs)
+    counts.services = await this.generateSingleType('services', model, outputPath, fs)
     console.log(`✓ Generated ${counts.services} API services`)
 
     this.logGenerationStep(4, "Generating View Models")
-    counts.views = await this.generateSingleType('views', spec, outputPath, fs)
+    counts.views = await this.generateSingleType('views', model, outputPath, fs)
     console.log(`✓ Generated ${counts.views} view models (for GET responses only)`)
 
-    this.logGenerationStep(5, "Generating React Query Hooks")
-    counts.hooks = await this.generateSingleType('hooks', spec, outputPath, fs, options)
-    console.log(`✓ Generated ${counts.hooks} React Query hooks`)
+    this.logGenerationStep(5, "Generating React Hooks")
+    counts.hooks = await this.generateSingleType('hooks', model, outputPath, fs, options)
+    console.log(`✓ Generated ${counts.hooks} React hooks`)
     
     this.logGenerationStep(6, "Generating React Components")
     const componentOptions = {
@@ -379,6 +446,7 @@ class ApiGenerator {
     if (componentsGenerator.initializeSpec) {
       await componentsGenerator.initializeSpec();
     }
+    componentsGenerator.setApiModel?.(model)
     
     const generatedComponents = componentsGenerator.generate()
     componentsGenerator.saveFiles(fs)
@@ -393,11 +461,11 @@ class ApiGenerator {
     console.log(`✓ Generated ${counts.components.editForm} edit forms (for PUT/PATCH request bodies)`)
 
     this.logGenerationStep(7, "Generating API Mocks")
-    counts.mocks = await this.generateSingleType('mocks', spec, outputPath, fs)
+    counts.mocks = await this.generateSingleType('mocks', model, outputPath, fs)
     console.log(`✓ Generated ${counts.mocks} API mocks`)
 
     this.logGenerationStep(8, "Generating Fake Data")
-    counts.fakesData = await this.generateSingleType('fakesData', spec, outputPath, fs)
+    counts.fakesData = await this.generateSingleType('fakesData', model, outputPath, fs)
     console.log(`✓ Generated ${counts.fakesData} fake data generators`)
 
     this.displayGenerationSummary(counts)
@@ -405,7 +473,7 @@ class ApiGenerator {
   }
 
   async generateSingle(type: string, options: GeneratorOptions): Promise<number> {
-    const { spec, outputPath, fs } = await this.setupGeneration(options)
+    const { model, outputPath, fs } = await this.setupGeneration(options)
     
     console.log(`\nGenerating ${type} in: ${outputPath}`)
 
@@ -414,34 +482,34 @@ class ApiGenerator {
 
     switch (type) {
       case 'types':
-        count = await this.generateSingleType('types', spec, outputPath, fs)
+        count = await this.generateSingleType('types', model, outputPath, fs)
         console.log(`✓ Generated ${count} TypeScript types`)
         break
       case 'schemas':
-        count = await this.generateSingleType('schemas', spec, outputPath, fs)
+        count = await this.generateSingleType('schemas', model, outputPath, fs)
         console.log(`✓ Generated ${count} Zod schemas`)
         break
       case 'services':
-        count = await this.generateSingleType('services', spec, outputPath, fs)
+        count = await this.generateSingleType('services', model, outputPath, fs)
         console.log(`✓ Generated ${count} API services`)
         break
       case 'views':
-        count = await this.generateSingleType('views', spec, outputPath, fs)
+        count = await this.generateSingleType('views', model, outputPath, fs)
         console.log(`✓ Generated ${count} view models (for GET responses only)`)
         break
       case 'hooks':
-        count = await this.generateSingleType('hooks', spec, outputPath, fs, options)
-        console.log(`✓ Generated ${count} React Query hooks`)
+        count = await this.generateSingleType('hooks', model, outputPath, fs, options)
+        console.log(`✓ Generated ${count} React hooks`)
         break
       case 'components':
-        count = await this.generateComponents(spec, outputPath, fs, options)
+        count = await this.generateComponents(model, outputPath, fs, options)
         break
       case 'mocks':
-        count = await this.generateSingleType('mocks', spec, outputPath, fs)
+        count = await this.generateSingleType('mocks', model, outputPath, fs)
         console.log(`✓ Generated ${count} API mock services`)
         break
       case 'fakesData':
-        count = await this.generateSingleType('fakesData', spec, outputPath, fs)
+        count = await this.generateSingleType('fakesData', model, outputPath, fs)
         console.log(`✓ Generated ${count} fake data generators`)
         break
       default:
@@ -453,7 +521,7 @@ class ApiGenerator {
   }
 
   private async generateComponents(
-    spec: OpenApiSpec,
+    model: ApiModel,
     outputPath: string,
     fs: NodeFileSystem,
     options: GeneratorOptions
@@ -461,13 +529,14 @@ class ApiGenerator {
     const generateForms = options.forms !== undefined ? options.forms : true
     const generateLists = options.list !== undefined ? options.list : true
 
-    const componentsGenerator = new ComponentsGenerator(spec, outputPath, {
+    const componentsGenerator = new ComponentsGenerator(model.spec, outputPath, {
       generateForms,
       generateLists,
     })
 
     // Initialize spec with proper dereferencing for complex schemas
     await componentsGenerator.initializeSpec();
+    componentsGenerator.setApiModel(model)
 
     console.log("Generating React Components...")
     const generated = componentsGenerator.generate()
@@ -547,11 +616,12 @@ class CLISetup {
   private setupHooksCommand(config: GeneratorConfig): void {
     this.program
       .command("hooks")
-      .description("Generate React Query hooks from API services")
+      .description("Generate React Query, SWR or RTK Query hooks from API services")
       .option("-s, --spec <path>", "Path to the OpenAPI specification file", config.spec?.default)
       .option("-o, --outDir <directory>", "Output directory for generated hooks", config.output?.default)
       .option("-i, --input <directory>", "Input directory containing service files (optional)", 
         config.options?.hooksGeneration?.servicesInputPath || undefined)
+      .option("-b, --backend <backend>", "Hooks backend: react-query, swr or rtk-query", config.options?.hooksGeneration?.backend)
       .action(async (options) => {
         await this.apiGenerator.generateSingle('hooks', options)
       })
@@ -0,0 +1,1423 @@
+// Templates for the runtime shared by generated services
+import { HttpClient } from '../types.js';
+
+export const CORE_OPENAPI_TEMPLATE = `import type { ApiRequestOptions } from './request';
+import type { AuthProvider } from './auth';
+import type { ResponseValidationFailure, ResponseValidationMode } from './validation';
+
+export type Resolver<T> = (options: ApiRequestOptions) => Promise<T>;
+export type Headers = Record<string, string>;
+
+export type OpenAPIConfig = {
+  BASE: string;
+  VERSION: string;
+  WITH_CREDENTIALS: boolean;
+  CREDENTIALS: 'include' | 'omit' | 'same-origin';
+  TOKEN?: string | Resolver<string> | undefined;
+  HEADERS?: Headers | Resolver<Headers> | undefined;
+  TIMEOUT?: number | undefined;
+  // Applies the credentials of the operations' security schemes, by default TOKEN as a bearer token
+  AUTH?: AuthProvider | undefined;
+  // Checks response bodies against their schemas: reject ('strict'), report ('warn') or skip ('off')
+  VALIDATION: ResponseValidationMode;
+  // Receives the mismatches found in 'warn' mode, which are logged with console.warn when unset
+  ON_VALIDATION_ERROR?: ((failure: ResponseValidationFailure) => void) | undefined;
+};
+
+/**
+ * Runtime configuration of the generated services, mutate it at application start-up
+ */
+export const OpenAPI: OpenAPIConfig = {
+  BASE: '{{baseUrl}}',
+  VERSION: '{{version}}',
+  WITH_CREDENTIALS: false,
+  CREDENTIALS: 'include',
+  TOKEN: undefined,
+  HEADERS: undefined,
+  TIMEOUT: undefined,
+  AUTH: undefined,
+  VALIDATION: '{{responseValidation}}',
+  ON_VALIDATION_ERROR: undefined,
+};
+`;
+
+export const CORE_ERRORS_TEMPLATE = `import type { ApiRequestOptions, HttpResponse } from './request';
+import { ResponseValidationFailure } from './validation';
+import type { ValidationIssue } from './validation';
+
+export interface ResponseOnSuccess<T> {
+  status: 'success';
+  data: T;
+}
+
+/**
+ * A failure declared in the spec, discriminated by statusCode
+ */
+export interface ResponseOnError<S extends number = number, B = unknown> {
+  status: 'error';
+  statusCode: S;
+  message: string;
+  body: B;
+  unexpected: false;
+}
+
+/**
+ * Any other failure: undeclared status codes, network errors and cancellations (statusCode 0)
+ */
+export interface UnexpectedError<B = unknown> {
+  status: 'error';
+  statusCode: number;
+  message: string;
+  body: B | undefined;
+  unexpected: true;
+  validation?: false;
+  error: unknown;
+}
+
+/**
+ * A response body that does not match its schema, with strict response validation
+ */
+export interface ResponseValidationError {
+  status: 'error';
+  statusCode: number;
+  message: string;
+  body: unknown;
+  unexpected: true;
+  validation: true;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Thrown by request() for any response outside the 2xx range
+ */
+export class ApiError extends Error {
+  public readonly url: string;
+  public readonly status: number;
+  public readonly statusText: string;
+  public readonly body: any;
+  public readonly request: ApiRequestOptions;
+
+  constructor(request: ApiRequestOptions, url: string, response: HttpResponse, message: string) {
+    super(message);
+
+    this.name = 'ApiError';
+    this.url = url;
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.body = response.data;
+    this.request = request;
+  }
+}
+
+/**
+ * Maps a rejected request to the error union of an operation, given the status codes it declares
+ */
+export const toResponseOnError = <E extends ResponseOnError<number, unknown> | UnexpectedError<unknown> | ResponseValidationError>(
+  declaredStatusCodes: number[]
+) => (error: unknown): E => {
+  if (error instanceof ResponseValidationFailure) {
+    return {
+      status: 'error',
+      statusCode: error.status,
+      message: error.message,
+      body: error.body,
+      unexpected: true,
+      validation: true,
+      issues: error.issues,
+    } as E;
+  }
+
+  if (error instanceof ApiError && declaredStatusCodes.includes(error.status)) {
+    return {
+      status: 'error',
+      statusCode: error.status,
+      message: error.message,
+      body: error.body,
+      unexpected: false,
+    } as E;
+  }
+
+  return {
+    status: 'error',
+    statusCode: error instanceof ApiError ? error.status : 0,
+    message: error instanceof Error ? error.message : String(error),
+    body: error instanceof ApiError ? error.body : undefined,
+    unexpected: true,
+    error,
+  } as E;
+};
+`;
+
+export const CORE_CANCELABLE_PROMISE_TEMPLATE = `export class CancelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancelError';
+  }
+
+  public get isCancelled(): boolean {
+    return true;
+  }
+}
+
+export interface OnCancel {
+  readonly isResolved: boolean;
+  readonly isRejected: boolean;
+  readonly isCancelled: boolean;
+
+  (cancelHandler: () => void): void;
+}
+
+/**
+ * A promise that can be cancelled; promises derived with then/catch/finally
+ * stay cancelable and cancel the request they come from
+ */
+export class CancelablePromise<T> implements Promise<T> {
+  private isResolved = false;
+  private isRejected = false;
+  private _isCancelled = false;
+  private readonly cancelHandlers: (() => void)[] = [];
+  private readonly promise: Promise<T>;
+  private reject?: (reason?: unknown) => void;
+
+  constructor(
+    executor: (
+      resolve: (value: T | PromiseLike<T>) => void,
+      reject: (reason?: unknown) => void,
+      onCancel: OnCancel
+    ) => void
+  ) {
+    this.promise = new Promise<T>((resolve, reject) => {
+      this.reject = reject;
+
+      const onResolve = (value: T | PromiseLike<T>): void => {
+        if (this.isResolved || this.isRejected || this._isCancelled) {
+          return;
+        }
+        this.isResolved = true;
+        resolve(value);
+      };
+
+      const onReject = (reason?: unknown): void => {
+        if (this.isResolved || this.isRejected || this._isCancelled) {
+          return;
+        }
+        this.isRejected = true;
+        reject(reason);
+      };
+
+      const onCancel = (cancelHandler: () => void): void => {
+        if (this.isResolved || this.isRejected || this._isCancelled) {
+          return;
+        }
+        this.cancelHandlers.push(cancelHandler);
+      };
+
+      Object.defineProperty(onCancel, 'isResolved', { get: (): boolean => this.isResolved });
+      Object.defineProperty(onCancel, 'isRejected', { get: (): boolean => this.isRejected });
+      Object.defineProperty(onCancel, 'isCancelled', { get: (): boolean => this._isCancelled });
+
+      return executor(onResolve, onReject, onCancel as OnCancel);
+    });
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Cancellable Promise';
+  }
+
+  public then<TResult1 = T, TResult2 = never>(
+    onFulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): CancelablePromise<TResult1 | TResult2> {
+    return this.derive(this.promise.then(onFulfilled, onRejected));
+  }
+
+  public catch<TResult = never>(
+    onRejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): CancelablePromise<T | TResult> {
+    return this.derive(this.promise.catch(onRejected));
+  }
+
+  public finally(onFinally?: (() => void) | null): CancelablePromise<T> {
+    return this.derive(this.promise.finally(onFinally));
+  }
+
+  public cancel(): void {
+    if (this.isResolved || this.isRejected || this._isCancelled) {
+      return;
+    }
+    this._isCancelled = true;
+    if (this.cancelHandlers.length) {
+      try {
+        for (const cancelHandler of this.cancelHandlers) {
+          cancelHandler();
+        }
+      } catch (error) {
+        console.warn('Cancellation threw an error', error);
+        return;
+      }
+    }
+    this.cancelHandlers.length = 0;
+    this.reject?.(new CancelError('Request aborted'));
+  }
+
+  public get isCancelled(): boolean {
+    return this._isCancelled;
+  }
+
+  private derive<R>(promise: Promise<R>): CancelablePromise<R> {
+    return new CancelablePromise<R>((resolve, reject, onCancel) => {
+      onCancel(() => this.cancel());
+      promise.then(resolve, reject);
+    });
+  }
+}
+`;
+
+export const CORE_QUERY_SERIALIZER_TEMPLATE = `/**
+ * How a query parameter is written, after the OpenAPI \`style\` and \`explode\` keywords
+ */
+export type QueryStyle = {
+  readonly style: 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+  readonly explode: boolean;
+};
+
+// Parameters declare no style by default, which OpenAPI defines as exploded form
+const DEFAULT_STYLE: QueryStyle = { style: 'form', explode: true };
+
+const DELIMITERS: Record<QueryStyle['style'], string> = {
+  form: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+  deepObject: ',',
+};
+
+const isDefined = <T>(value: T | null | undefined): value is Exclude<T, null | undefined> => {
+  return value !== undefined && value !== null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+};
+
+const toValue = (value: unknown): string => {
+  return value instanceof Date ? value.toISOString() : String(value);
+};
+
+/**
+ * deepObject, nested the way Laravel and qs read it: filter[status]=active, filter[tags][]=a
+ */
+const appendDeepObject = (params: URLSearchParams, key: string, value: unknown): void => {
+  if (Array.isArray(value)) {
+    value.filter(isDefined).forEach(item => appendDeepObject(params, \`\${key}[]\`, item));
+  } else if (isPlainObject(value)) {
+    Object.entries(value)
+      .filter(([, property]) => isDefined(property))
+      .forEach(([property, propertyValue]) => appendDeepObject(params, \`\${key}[\${property}]\`, propertyValue));
+  } else {
+    params.append(key, toValue(value));
+  }
+};
+
+/**
+ * Serializes query parameters; parameters without an entry in \`styles\` are exploded form.
+ * Name a parameter \`ids[]\` in the spec to send ids[]=1&ids[]=2.
+ */
+export const serializeQuery = (query: Record<string, any> = {}, styles: Record<string, QueryStyle> = {}): string => {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (!isDefined(value)) {
+      return;
+    }
+
+    const { style, explode } = styles[key] ?? DEFAULT_STYLE;
+    if (style === 'deepObject') {
+      appendDeepObject(params, key, value);
+    } else if (Array.isArray(value)) {
+      const items = value.filter(isDefined).map(toValue);
+      if (explode) {
+        items.forEach(item => params.append(key, item));
+      } else {
+        params.append(key, items.join(DELIMITERS[style]));
+      }
+    } else if (isPlainObject(value)) {
+      const entries = Object.entries(value).filter(([, property]) => isDefined(property));
+      if (explode) {
+        // Exploded objects spread into one parameter per property
+        entries.forEach(([property, propertyValue]) => params.append(property, toValue(propertyValue)));
+      } else {
+        params.append(key, entries.flatMap(([property, propertyValue]) => [property, toValue(propertyValue)]).join(DELIMITERS[style]));
+      }
+    } else {
+      params.append(key, toValue(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? \`?\${queryString}\` : '';
+};
+`;
+
+export const CORE_REQUEST_TEMPLATE = `import { httpAdapter } from './adapter';
+import { ApiError } from './Errors';
+import { CancelablePromise } from './CancelablePromise';
+import type { OnCancel } from './CancelablePromise';
+import type { OpenAPIConfig, Resolver } from './OpenAPI';
+import { serializeQuery } from './querySerializer';
+import type { QueryStyle } from './querySerializer';
+import { createAuthProvider } from './auth';
+import type { AuthRequest, SecurityScheme } from './auth';
+import { securitySchemes } from './security';
+import { validateResponse } from './validation';
+import type { ResponseSchema } from './validation';
+
+/**
+ * Per-call overrides accepted by every service method
+ */
+export type RequestOptions = {
+  readonly headers?: Record<string, string>;
+  // Query parameters the spec does not declare, e.g. the page of an implicitly paginated list
+  readonly query?: Record<string, unknown>;
+  readonly timeout?: number;
+  readonly signal?: AbortSignal;
+};
+
+export type ResponseType = 'json' | 'text' | 'blob' | 'arraybuffer';
+
+/**
+ * A downloaded file, with the name suggested by Content-Disposition
+ */
+export type FileDownload<T extends Blob | ArrayBuffer = Blob> = {
+  data: T;
+  filename: string | null;
+  contentType: string | null;
+};
+
+export type ApiRequestOptions = {
+  readonly method: 'GET' | 'PUT' | 'POST' | 'DELETE' | 'OPTIONS' | 'HEAD' | 'PATCH';
+  readonly url: string;
+  readonly path?: Record<string, any>;
+  readonly query?: Record<string, any>;
+  readonly queryStyles?: Record<string, QueryStyle>;
+  readonly headers?: Record<string, any>;
+  readonly cookies?: Record<string, any>;
+  readonly body?: any;
+  readonly requestBody?: any;
+  readonly formData?: Record<string, any>;
+  readonly mediaType?: string;
+  readonly responseType?: ResponseType;
+  readonly responseHeader?: string;
+  readonly errors?: Record<number, string>;
+  // Alternative sets of security scheme names, the first one with credentials is used
+  readonly security?: ReadonlyArray<ReadonlyArray<string>>;
+  // Schema of the success body, checked according to OpenAPI.VALIDATION
+  readonly responseSchema?: ResponseSchema;
+  readonly requestOptions?: RequestOptions;
+};
+
+export type HttpRequest = {
+  readonly method: ApiRequestOptions['method'];
+  readonly url: string;
+  readonly headers: Record<string, string>;
+  readonly body?: any;
+  readonly responseType?: ResponseType;
+  readonly credentials: RequestCredentials;
+  readonly timeout?: number;
+  readonly signal: AbortSignal;
+};
+
+export type HttpResponse<T = any> = {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * Sends a prepared request with the configured HTTP client; status codes are
+ * interpreted by request(), adapters must not throw on error responses
+ */
+export interface HttpAdapter {
+  send<T>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+const isDefined = <T>(value: T | null | undefined): value is Exclude<T, null | undefined> => {
+  return value !== undefined && value !== null;
+};
+
+const resolve = async <T>(options: ApiRequestOptions, resolver?: T | Resolver<T>): Promise<T | undefined> => {
+  if (typeof resolver === 'function') {
+    return (resolver as Resolver<T>)(options);
+  }
+  return resolver;
+};
+
+/**
+ * Replaces {name} segments with the encoded path parameters
+ */
+const getPath = (options: ApiRequestOptions): string => {
+  return options.url.replace(/{(.*?)}/g, (substring: string, name: string) => {
+    if (options.path?.hasOwnProperty(name)) {
+      return encodeURIComponent(String(options.path[name]));
+    }
+    return substring;
+  });
+};
+
+const getFormValue = (value: any): string | Blob => {
+  if (value instanceof Blob) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * multipart/form-data and urlencoded bodies are built from the values; arrays repeat their key
+ */
+const getFormBody = (options: ApiRequestOptions, values: Record<string, any>): FormData | URLSearchParams => {
+  const isUrlEncoded = options.mediaType === 'application/x-www-form-urlencoded';
+  const body = isUrlEncoded ? new URLSearchParams() : new FormData();
+
+  Object.entries(values).forEach(([key, value]) => {
+    const items = Array.isArray(value) ? value : [value];
+    items.filter(isDefined).forEach(item => {
+      const formValue = getFormValue(item);
+      if (body instanceof FormData) {
+        body.append(key, formValue);
+      } else {
+        body.append(key, String(formValue));
+      }
+    });
+  });
+
+  return body;
+};
+
+const getBody = (options: ApiRequestOptions): any => {
+  if (options.formData) {
+    return getFormBody(options, options.formData);
+  }
+  return options.body ?? options.requestBody;
+};
+
+const getCookieHeader = (cookies: Record<string, any> = {}): string => {
+  return Object.entries(cookies)
+    .filter(([, value]) => isDefined(value))
+    .map(([name, value]) => \`\${name}=\${encodeURIComponent(String(value))}\`)
+    .join('; ');
+};
+
+/**
+ * Credentials for the request: operations that declare no security send TOKEN as before,
+ * others get those of the first requirement the auth provider can satisfy. When none can
+ * be satisfied the request goes out without credentials and the API answers for it.
+ */
+const authorize = async (config: OpenAPIConfig, options: ApiRequestOptions): Promise<AuthRequest> => {
+  const provider = config.AUTH ?? createAuthProvider({ getToken: () => resolve(options, config.TOKEN) });
+  const unauthenticated: AuthRequest = { method: options.method, url: options.url, headers: {}, query: {}, withCredentials: false };
+  const requirements: ReadonlyArray<ReadonlyArray<SecurityScheme | undefined>> = options.security
+    ? options.security.map(requirement => requirement.map(name => securitySchemes[name]))
+    : [[{ name: 'TOKEN', type: 'http', scheme: 'bearer' }]];
+
+  for (const requirement of requirements) {
+    const request: AuthRequest = { ...unauthenticated, headers: {}, query: {} };
+    let satisfied = true;
+    for (const scheme of requirement) {
+      if (!scheme || !(await provider.apply(scheme, request))) {
+        satisfied = false;
+        break;
+      }
+    }
+    if (satisfied) {
+      return request;
+    }
+  }
+  return unauthenticated;
+};
+
+const getHeaders = async (config: OpenAPIConfig, options: ApiRequestOptions, body: any, auth: AuthRequest): Promise<Record<string, string>> => {
+  const additionalHeaders = await resolve(options, config.HEADERS);
+
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    ...additionalHeaders,
+    ...options.headers,
+    ...options.requestOptions?.headers,
+  };
+
+  // Browsers manage the Cookie header themselves, cookie parameters take effect in other runtimes
+  const cookie = getCookieHeader(options.cookies);
+  if (cookie) {
+    headers['Cookie'] = cookie;
+  }
+  if (options.mediaType) {
+    headers['Content-Type'] = options.mediaType;
+  }
+  if (options.responseType === 'blob' || options.responseType === 'arraybuffer') {
+    headers['Accept'] = '*/*';
+  }
+  // The client sets the multipart boundary itself
+  if (body instanceof FormData) {
+    delete headers['Content-Type'];
+  }
+  Object.assign(headers, auth.headers);
+
+  return Object.fromEntries(
+    Object.entries(headers).filter(([, value]) => isDefined(value)).map(([key, value]) => [key, String(value)])
+  );
+};
+
+const getErrorMessage = (options: ApiRequestOptions, response: HttpResponse): string | null => {
+  if (response.status >= 200 && response.status < 300) {
+    return null;
+  }
+  return options.errors?.[response.status] || response.statusText || \`Request failed with status \${response.status}\`;
+};
+
+/**
+ * Reads the file name from Content-Disposition, preferring the RFC 5987 filename* form
+ */
+const getFilename = (contentDisposition?: string): string | null => {
+  if (!contentDisposition) {
+    return null;
+  }
+  const encoded = /filename\\*=(?:UTF-8'[^']*')?([^;]+)/i.exec(contentDisposition);
+  if (encoded) {
+    return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+  }
+  const plain = /filename=("([^"]*)"|[^;]+)/i.exec(contentDisposition);
+  return plain ? (plain[2] ?? plain[1]).trim() : null;
+};
+
+const getResponseBody = <T>(options: ApiRequestOptions, response: HttpResponse): T => {
+  if (options.responseHeader) {
+    return response.headers[options.responseHeader.toLowerCase()] as unknown as T;
+  }
+  if (options.responseType === 'blob' || options.responseType === 'arraybuffer') {
+    const download: FileDownload<Blob | ArrayBuffer> = {
+      data: response.data,
+      filename: getFilename(response.headers['content-disposition']),
+      contentType: response.headers['content-type'] ?? null,
+    };
+    return download as unknown as T;
+  }
+  return response.data;
+};
+
+/**
+ * Sends a request through the HTTP adapter, by default the one of the configured HTTP client
+ * @throws ApiError for non 2xx responses
+ */
+export const request = <T>(config: OpenAPIConfig, options: ApiRequestOptions, adapter: HttpAdapter = httpAdapter): CancelablePromise<T> => {
+  return new CancelablePromise<T>(async (resolvePromise, reject, onCancel: OnCancel) => {
+    const signal = options.requestOptions?.signal;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    try {
+      // A request aborted before it starts is not sent at all
+      if (signal?.aborted) {
+        throw signal.reason ?? new Error('Request aborted');
+      }
+      onCancel(abort);
+      signal?.addEventListener('abort', abort, { once: true });
+
+      const auth = await authorize(config, options);
+      const path = \`\${getPath(options)}\${serializeQuery({ ...options.query, ...options.requestOptions?.query, ...auth.query }, options.queryStyles)}\`;
+
+      const body = getBody(options);
+      const response = await adapter.send<any>({
+        method: options.method,
+        url: \`\${config.BASE}\${path}\`,
+        headers: await getHeaders(config, options, body, auth),
+        body,
+        responseType: options.responseType,
+        credentials: auth.withCredentials ? 'include' : config.WITH_CREDENTIALS ? config.CREDENTIALS : 'same-origin',
+        timeout: options.requestOptions?.timeout ?? config.TIMEOUT,
+        signal: controller.signal,
+      });
+
+      if (onCancel.isCancelled) {
+        return;
+      }
+
+      const message = getErrorMessage(options, response);
+      if (message) {
+        throw new ApiError(options, \`\${config.BASE}\${path}\`, response, message);
+      }
+
+      const responseBody = getResponseBody<T>(options, response);
+      if (options.responseSchema) {
+        validateResponse(options.responseSchema, responseBody, config.VALIDATION, \`\${config.BASE}\${path}\`, response.status, config.ON_VALIDATION_ERROR);
+      }
+      resolvePromise(responseBody);
+    } catch (error) {
+      reject(error);
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+  });
+};
+`;
+
+export const CORE_AUTH_TEMPLATE = `/**
+ * A security scheme of the specification, keyed by its name in components.securitySchemes
+ */
+export type SecurityScheme = {
+  readonly name: string;
+  readonly type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  readonly scheme?: string;
+  readonly in?: 'header' | 'query' | 'cookie';
+  readonly parameterName?: string;
+};
+
+/**
+ * Credentials being added to a request
+ */
+export type AuthRequest = {
+  readonly method: string;
+  readonly url: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  withCredentials: boolean;
+};
+
+/**
+ * Adds the credentials of a scheme to the request, resolves false when it has none to add
+ */
+export interface AuthProvider {
+  apply(scheme: SecurityScheme, request: AuthRequest): boolean | Promise<boolean>;
+}
+
+type Credential<T = string> = T | null | undefined | Promise<T | null | undefined>;
+
+export type AuthProviderOptions = {
+  // http bearer, oauth2 and openIdConnect schemes
+  getToken?: (scheme: SecurityScheme) => Credential;
+  // http basic schemes
+  getBasicCredentials?: (scheme: SecurityScheme) => Credential<{ username: string; password: string }>;
+  // apiKey schemes sent in a header or the query string
+  getApiKey?: (scheme: SecurityScheme) => Credential;
+  // apiKey schemes in a cookie are session cookies owned by the browser: requests include
+  // credentials and echo the CSRF cookie in a header, the way Laravel Sanctum expects
+  xsrf?: { cookieName: string; headerName: string } | false;
+};
+
+const DEFAULT_XSRF = { cookieName: 'XSRF-TOKEN', headerName: 'X-XSRF-TOKEN' };
+
+const readCookie = (name: string): string | undefined => {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+  const cookie = document.cookie.split('; ').find(entry => entry.startsWith(\`\${name}=\`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+/**
+ * The built-in credential strategies, one per kind of security scheme
+ */
+export const createAuthProvider = (options: AuthProviderOptions = {}): AuthProvider => ({
+  async apply(scheme, request) {
+    switch (scheme.type) {
+      case 'http': {
+        if (scheme.scheme?.toLowerCase() === 'basic') {
+          const credentials = await options.getBasicCredentials?.(scheme);
+          if (!credentials) {
+            return false;
+          }
+          request.headers['Authorization'] = \`Basic \${btoa(\`\${credentials.username}:\${credentials.password}\`)}\`;
+          return true;
+        }
+        const token = await options.getToken?.(scheme);
+        if (!token) {
+          return false;
+        }
+        request.headers['Authorization'] = \`Bearer \${token}\`;
+        return true;
+      }
+      case 'oauth2':
+      case 'openIdConnect': {
+        const token = await options.getToken?.(scheme);
+        if (!token) {
+          return false;
+        }
+        request.headers['Authorization'] = \`Bearer \${token}\`;
+        return true;
+      }
+      case 'apiKey': {
+        if (scheme.in === 'cookie') {
+          request.withCredentials = true;
+          const xsrf = options.xsrf ?? DEFAULT_XSRF;
+          const xsrfToken = xsrf ? readCookie(xsrf.cookieName) : undefined;
+          if (xsrf && xsrfToken) {
+            request.headers[xsrf.headerName] = xsrfToken;
+          }
+          return true;
+        }
+        const apiKey = await options.getApiKey?.(scheme);
+        if (!apiKey || !scheme.parameterName) {
+          return false;
+        }
+        if (scheme.in === 'query') {
+          request.query[scheme.parameterName] = apiKey;
+        } else {
+          request.headers[scheme.parameterName] = apiKey;
+        }
+        return true;
+      }
+      default:
+        // Client certificates are set up outside of the application
+        return false;
+    }
+  },
+});
+`;
+
+export const CORE_SECURITY_TEMPLATE = `import type { SecurityScheme } from './auth';
+
+// components.securitySchemes of the specification
+export const securitySchemes: Record<string, SecurityScheme> = {{securitySchemes}};
+`;
+
+export const CORE_VALIDATION_TEMPLATE = `export type ResponseValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * A mismatch between a response body and its schema, e.g. { path: 'data[0].name', message: 'Required' }
+ */
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * What is needed from a Zod schema, so the runtime does not depend on a Zod version
+ */
+export type ResponseSchema = {
+  safeParse(data: unknown): {
+    success: boolean;
+    error?: { issues: ReadonlyArray<{ path: ReadonlyArray<PropertyKey>; message: string }> };
+  };
+};
+
+/**
+ * Rejected by request() when a response body fails strict validation
+ */
+export class ResponseValidationFailure extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status: number,
+    public readonly body: unknown,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(\`Invalid response from \${url}: \${issues.map(issue => \`\${issue.path || '(root)'}: \${issue.message}\`).join('; ')}\`);
+    this.name = 'ResponseValidationFailure';
+  }
+}
+
+const formatPath = (path: ReadonlyArray<PropertyKey>): string => {
+  return path.reduce<string>((formatted, key) => {
+    if (typeof key === 'number') {
+      return \`\${formatted}[\${key}]\`;
+    }
+    return formatted ? \`\${formatted}.\${String(key)}\` : String(key);
+  }, '');
+};
+
+/**
+ * Checks a body against its schema; the body itself is passed on unchanged. In warn mode
+ * mismatches go to onValidationError, or to console.warn without one.
+ * @throws ResponseValidationFailure in strict mode
+ */
+export const validateResponse = (
+  schema: ResponseSchema,
+  body: unknown,
+  mode: ResponseValidationMode,
+  url: string,
+  status: number,
+  onValidationError?: (failure: ResponseValidationFailure) => void
+): void => {
+  if (mode === 'off') {
+    return;
+  }
+
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return;
+  }
+
+  const issues = (result.error?.issues ?? []).map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+  const failure = new ResponseValidationFailure(url, status, body, issues);
+  if (mode === 'strict') {
+    throw failure;
+  }
+  if (onValidationError) {
+    onValidationError(failure);
+  } else {
+    console.warn(failure.message, issues);
+  }
+};
+`;
+
+export const CORE_PAGINATION_TEMPLATE = `/**
+ * A page of a paginated response: its items, and the rest of the envelope as metadata
+ */
+export type Paginated<T, M = Record<string, unknown>> = {
+  items: T[];
+  meta: M;
+};
+
+type PageItem<E, K extends keyof E> = NonNullable<E[K]> extends ReadonlyArray<infer T> ? T : never;
+
+/**
+ * Splits a paginated envelope into its items (mapped, e.g. into views) and metadata
+ */
+export function toPaginated<E extends Record<string, any>, K extends keyof E>(envelope: E, itemsProperty: K): Paginated<PageItem<E, K>, Omit<E, K>>;
+export function toPaginated<E extends Record<string, any>, K extends keyof E, T>(envelope: E, itemsProperty: K, mapItem: (item: PageItem<E, K>) => T): Paginated<T, Omit<E, K>>;
+export function toPaginated<E extends Record<string, any>, K extends keyof E>(
+  envelope: E,
+  itemsProperty: K,
+  mapItem: (item: PageItem<E, K>) => unknown = item => item
+): Paginated<unknown, Omit<E, K>> {
+  const { [itemsProperty]: items, ...meta } = envelope;
+  return {
+    items: ((items ?? []) as PageItem<E, K>[]).map(mapItem),
+    meta: meta as Omit<E, K>,
+  };
+}
+
+const readPath = (value: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((current, key) => (current as Record<string, unknown> | null | undefined)?.[key], value);
+
+/**
+ * Number of the page after the current one, undefined on the last page. The last page is
+ * known from its number, or from an empty next page property (e.g. Laravel's \`next_page_url\`).
+ */
+export const getNextPage = (meta: unknown, currentProperty: string, lastProperty: string | null, nextProperty: string | null = null): number | undefined => {
+  const current = readPath(meta, currentProperty);
+  if (typeof current !== 'number') {
+    return undefined;
+  }
+  if (lastProperty) {
+    const last = readPath(meta, lastProperty);
+    return typeof last === 'number' && current < last ? current + 1 : undefined;
+  }
+  return nextProperty && readPath(meta, nextProperty) ? current + 1 : undefined;
+};
+
+/**
+ * Cursor of the next page, undefined on the last page
+ */
+export const getNextCursor = (meta: unknown, nextProperty: string): string | undefined => {
+  const cursor = readPath(meta, nextProperty);
+  return cursor === null || cursor === undefined || cursor === '' ? undefined : String(cursor);
+};
+`;
+
+export const CORE_CLIENT_TEMPLATE = `import { OpenAPI } from './OpenAPI';
+import type { OpenAPIConfig } from './OpenAPI';
+import { httpAdapter } from './adapter';
+import type { HttpAdapter } from './request';
+
+/**
+ * What service functions send their requests with
+ */
+export type ServiceClient = {
+  readonly config: OpenAPIConfig;
+  readonly adapter: HttpAdapter;
+};
+
+// Follows changes made to OpenAPI at runtime
+export const defaultClient: ServiceClient = {
+  config: OpenAPI,
+  adapter: httpAdapter,
+};
+
+/**
+ * A client with its own configuration (e.g. another base URL or token), starting from a copy of OpenAPI
+ */
+export const createServiceClient = (config: Partial<OpenAPIConfig> = {}, adapter: HttpAdapter = httpAdapter): ServiceClient => ({
+  config: { ...OpenAPI, ...config },
+  adapter,
+});
+`;
+
+// Fetch client the fetch adapter is built on: interceptors, retries, timeouts and token handling
+export const CORE_API_CLIENT_TEMPLATE = `export interface ApiResponse<T = any> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+  params?: Record<string, string | number | boolean>;
+  credentials?: RequestCredentials;
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions> | false;
+  responseType?: 'json' | 'text' | 'blob' | 'arraybuffer';
+}
+
+/**
+ * A request as seen (and possibly rewritten) by request interceptors
+ */
+export interface ApiRequest extends RequestOptions {
+  method: string;
+  url: string;
+  data?: any;
+  headers: Record<string, string>;
+}
+
+export interface RetryOptions {
+  retries: number;
+  retryDelay: number;      // Base delay in ms, doubled on every attempt
+  maxDelay: number;
+  statusCodes: number[];
+  methods: string[];       // Only idempotent methods are retried by default
+}
+
+export type TokenResolver = () => string | null | undefined | Promise<string | null | undefined>;
+
+export interface ApiClientConfig {
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retry?: Partial<RetryOptions>;
+  // Sent as a bearer token with every request
+  getToken?: TokenResolver;
+  // Called once when a request is answered with 401; resolve true to replay it with fresh credentials
+  onUnauthorized?: () => Promise<boolean>;
+}
+
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+export type ResponseInterceptor = (response: ApiResponse, request: ApiRequest) => ApiResponse | Promise<ApiResponse>;
+// Returns a response to recover from the error, throws to propagate it
+export type ErrorInterceptor = (error: unknown, request: ApiRequest) => ApiResponse | Promise<ApiResponse>;
+
+export class RequestTimeoutError extends Error {
+  constructor(public readonly request: ApiRequest, public readonly timeout: number) {
+    super(\`\${request.method} \${request.url} timed out after \${timeout}ms\`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 0,
+  retryDelay: 300,
+  maxDelay: 30000,
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+};
+
+export class InterceptorManager<T> {
+  private handlers: T[] = [];
+
+  /**
+   * Registers an interceptor, returns a function removing it again
+   */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(registered => registered !== handler);
+    };
+  }
+
+  getHandlers(): T[] {
+    return [...this.handlers];
+  }
+}
+
+export class ApiClient {
+  private baseUrl: string;
+  private config: ApiClientConfig;
+  private refreshing?: Promise<boolean>;
+
+  readonly interceptors = {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+    error: new InterceptorManager<ErrorInterceptor>()
+  };
+
+  constructor(config: string | ApiClientConfig = '/api/v1') {
+    this.config = typeof config === 'string' ? { baseUrl: config } : config;
+    this.baseUrl = this.config.baseUrl ?? '/api/v1';
+  }
+
+  /**
+   * Updates the client configuration, e.g. to install a token resolver after login
+   */
+  configure(config: ApiClientConfig): this {
+    this.config = { ...this.config, ...config };
+    this.baseUrl = this.config.baseUrl ?? this.baseUrl;
+    return this;
+  }
+    async get<T>(url: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('GET', url, undefined, options);
+  }
+
+  async post<T>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('POST', url, data, options);
+  }
+
+  async put<T>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('PUT', url, data, options);
+  }
+
+  async delete<T>(url: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('DELETE', url, undefined, options);
+  }
+
+  async patch<T>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('PATCH', url, data, options);
+  }
+    async request<T>(
+    method: string,
+    url: string,
+    data?: any,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    let request = await this.prepareRequest(method, url, data, options);
+    let response = await this.send(request);
+
+    // Refresh credentials once, then replay the request with the new token
+    if (response.status === 401 && this.config.onUnauthorized && await this.refreshCredentials()) {
+      request = await this.prepareRequest(method, url, data, options);
+      response = await this.send(request);
+    }
+
+    for (const interceptor of this.interceptors.response.getHandlers()) {
+      response = await interceptor(response, request);
+    }
+    return response as ApiResponse<T>;
+  }
+
+  private async prepareRequest(method: string, url: string, data: any, options: RequestOptions): Promise<ApiRequest> {
+    const token = this.config.getToken ? await this.config.getToken() : undefined;
+    let request: ApiRequest = {
+      timeout: this.config.timeout,
+      ...options,
+      method,
+      url,
+      data,
+      headers: {
+        'Accept': 'application/json',
+        ...this.config.headers,
+        ...(token ? { Authorization: \`Bearer \${token}\` } : {}),
+        ...options.headers
+      }
+    };
+
+    for (const interceptor of this.interceptors.request.getHandlers()) {
+      request = await interceptor(request);
+    }
+    return request;
+  }
+
+  /**
+   * Concurrent 401 responses share a single refresh
+   */
+  private refreshCredentials(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.config.onUnauthorized!()
+        .catch(() => false)
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Sends with retries; errors left once retries are exhausted go through the error interceptors
+   */
+  private async send(request: ApiRequest): Promise<ApiResponse> {
+    try {
+      return await this.sendWithRetry(request);
+    } catch (error) {
+      const interceptors = this.interceptors.error.getHandlers();
+      if (interceptors.length === 0) {
+        throw error;
+      }
+
+      let lastError = error;
+      for (const interceptor of interceptors) {
+        try {
+          return await interceptor(lastError, request);
+        } catch (interceptorError) {
+          lastError = interceptorError;
+        }
+      }
+      throw lastError;
+    }
+  }
+
+  private async sendWithRetry(request: ApiRequest): Promise<ApiResponse> {
+    const retry = request.retry === false
+      ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+      : { ...DEFAULT_RETRY_OPTIONS, ...this.config.retry, ...request.retry };
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < retry.retries && retry.methods.includes(request.method.toUpperCase());
+      try {
+        const response = await this.fetchOnce(request);
+        if (!canRetry || !retry.statusCodes.includes(response.status)) {
+          return response;
+        }
+        await this.wait(this.getRetryDelay(retry, attempt, response), request.signal);
+      } catch (error) {
+        // Network failures and timeouts are retried, aborts by the caller are not
+        const isTransient = error instanceof TypeError || error instanceof RequestTimeoutError;
+        if (!canRetry || !isTransient || request.signal?.aborted) {
+          throw error;
+        }
+        await this.wait(this.getRetryDelay(retry, attempt), request.signal);
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff, unless a 429/503 response tells how long to wait with Retry-After
+   */
+  private getRetryDelay(retry: RetryOptions, attempt: number, response?: ApiResponse): number {
+    const retryAfter = response && [429, 503].includes(response.status) ? response.headers['retry-after'] : undefined;
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), retry.maxDelay);
+      }
+    }
+    return Math.min(retry.retryDelay * 2 ** attempt, retry.maxDelay);
+  }
+
+  private wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason ?? new Error('Request aborted'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason ?? new Error('Request aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async fetchOnce(request: ApiRequest): Promise<ApiResponse> {
+    const requestUrl = \`\${this.baseUrl}\${request.url}\${this.getQueryString(request.params)}\`;
+
+    // A request aborted before it starts is not sent at all
+    if (request.signal?.aborted) {
+      throw request.signal.reason ?? new Error('Request aborted');
+    }
+
+    // Abort when the timeout elapses or when the caller aborts
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    const timer = request.timeout ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout) : undefined;
+
+    // Strings, FormData, Blobs, buffers and URLSearchParams are sent as they are, anything else as JSON
+    const isRawBody = typeof request.data === 'string' || request.data instanceof FormData || request.data instanceof Blob
+      || request.data instanceof URLSearchParams || request.data instanceof ArrayBuffer || ArrayBuffer.isView(request.data);
+    const headers = { ...request.headers };
+    const contentTypeHeader = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+    if (request.data instanceof FormData && contentTypeHeader) {
+      // fetch sets the multipart boundary itself
+      delete headers[contentTypeHeader];
+    } else if (request.data !== undefined && !isRawBody && !contentTypeHeader) {
+      // Requests without a body go out without a Content-Type
+      headers['Content-Type'] = 'application/json';
+    }
+
+    // Make the request, the timeout and the caller's signal also cover reading the body
+    try {
+      const response = await fetch(requestUrl, {
+        method: request.method,
+        headers,
+        body: isRawBody ? request.data : request.data !== undefined ? JSON.stringify(request.data) : undefined,
+        credentials: request.credentials,
+        signal: controller.signal
+      });
+      return await this.readResponse(response, request);
+    } catch (error) {
+      throw timedOut ? new RequestTimeoutError(request, request.timeout!) : error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async readResponse(response: Response, request: ApiRequest): Promise<ApiResponse> {
+    let responseData: any;
+    const contentType = response.headers.get('content-type');
+    if (request.responseType === 'blob') {
+      responseData = await response.blob();
+    } else if (request.responseType === 'arraybuffer') {
+      responseData = await response.arrayBuffer();
+    } else if (request.responseType !== 'text' && contentType && contentType.includes('application/json')) {
+      responseData = await response.json();
+    } else {
+      responseData = await response.text();
+    }
+
+    // Extract headers
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    return {
+      data: responseData,
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders
+    };
+  }
+
+  private getQueryString(params?: Record<string, string | number | boolean>): string {
+    if (!params) {
+      return '';
+    }
+
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => searchParams.append(key, String(value)));
+    const queryString = searchParams.toString();
+    return queryString ? \`?\${queryString}\` : '';
+  }
+}
+
+// Create a default instance
+export const apiClient = new ApiClient();
+
+// Export a factory function to create custom instances
+export function createApiClient(config?: string | ApiClientConfig): ApiClient {
+  return new ApiClient(config);
+}
+`;
+
+export const CORE_FETCH_ADAPTER_TEMPLATE = `import { createApiClient } from './ApiClient';
+import type { HttpAdapter, HttpRequest, HttpResponse } from './request';
+
+// Shared client: configure() retries, timeouts and token handling, or register interceptors on it;
+// request() resolves the base URL so the client receives absolute URLs
+export const httpClient = createApiClient({ baseUrl: '' });
+
+export const httpAdapter: HttpAdapter = {
+  send<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    return httpClient.request<T>(request.method, request.url, request.body, {
+      headers: request.headers,
+      timeout: request.timeout,
+      responseType: request.responseType,
+      credentials: request.credentials,
+      signal: request.signal,
+    });
+  },
+};
+`;
+
+export const CORE_AXIOS_ADAPTER_TEMPLATE = `import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import type { HttpAdapter, HttpRequest, HttpResponse } from './request';
+
+// Shared instance, register interceptors or defaults on it
+export const httpClient: AxiosInstance = axios.create();
+
+export const httpAdapter: HttpAdapter = {
+  async send<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const response = await httpClient.request<T>({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: request.body,
+      responseType: request.responseType,
+      withCredentials: request.credentials === 'include',
+      timeout: request.timeout,
+      signal: request.signal,
+      validateStatus: () => true,
+    });
+
+    const headers: Record<string, string> = {};
+    Object.entries(response.headers).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        headers[key.toLowerCase()] = String(value);
+      }
+    });
+
+    return {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    };
+  },
+};
+`;
+
+export const CORE_KY_ADAPTER_TEMPLATE = `import ky from 'ky';
+import type { HttpAdapter, HttpRequest, HttpResponse, ResponseType } from './request';
+
+// Shared instance, extend it with hooks or defaults; retries stay off so requests are not replayed twice
+export const httpClient = ky.create({ retry: 0, throwHttpErrors: false });
+
+const readBody = async (response: Response, responseType?: ResponseType): Promise<any> => {
+  if (responseType === 'blob') {
+    return response.blob();
+  }
+  if (responseType === 'arraybuffer') {
+    return response.arrayBuffer();
+  }
+  const contentType = response.headers.get('content-type');
+  return responseType !== 'text' && contentType && contentType.includes('application/json')
+    ? response.json()
+    : response.text();
+};
+
+export const httpAdapter: HttpAdapter = {
+  async send<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    // Plain values are sent as JSON, FormData, Blobs and other bodies as they are
+    const isJson = request.body !== undefined && (request.body?.constructor === Object || Array.isArray(request.body));
+    const response = await httpClient(request.url, {
+      method: request.method,
+      headers: request.headers,
+      json: isJson ? request.body : undefined,
+      body: isJson ? undefined : request.body,
+      credentials: request.credentials,
+      timeout: request.timeout ?? false,
+      signal: request.signal,
+    });
+
+    const data = await readBody(response, request.responseType);
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return {
+      data: data as T,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    };
+  },
+};
+`;
+
+export const CORE_HTTP_ADAPTER_TEMPLATES: Record<HttpClient, string> = {
+  fetch: CORE_FETCH_ADAPTER_TEMPLATE,
+  axios: CORE_AXIOS_ADAPTER_TEMPLATE,
+  ky: CORE_KY_ADAPTER_TEMPLATE
+};
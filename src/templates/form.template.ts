@@ -6,7 +6,7 @@ export const CREATE_FORM_TEMPLATE = `
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { {{schemaName}} } from '../schemas/{{schemaFile}}';
-import { {{typeName}} } from '../types';
+import { {{dataType}} } from '../types';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -20,12 +20,12 @@ import {
 import { Input } from '@/components/ui/input';
 
 interface {{typeName}}CreateFormProps {
-  onSubmit: (data: {{typeName}}) => void;
+  onSubmit: (data: {{dataType}}) => void;
   isLoading?: boolean;
 }
 
 export function {{typeName}}CreateForm({ onSubmit, isLoading = false }: {{typeName}}CreateFormProps) {
-  const form = useForm<{{typeName}}>({
+  const form = useForm<{{dataType}}>({
     resolver: zodResolver({{schemaName}}),
     defaultValues: {
       {{defaultValues}}
@@ -54,7 +54,7 @@ import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { {{schemaName}} } from '../schemas/{{schemaFile}}';
-import { {{typeName}} } from '../types';
+import { {{dataType}} } from '../types';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -68,13 +68,13 @@ import {
 import { Input } from '@/components/ui/input';
 
 interface {{typeName}}EditFormProps {
-  data: {{typeName}};
-  onSubmit: (data: {{typeName}}) => void;
+  data: {{dataType}};
+  onSubmit: (data: {{dataType}}) => void;
   isLoading?: boolean;
 }
 
 export function {{typeName}}EditForm({ data, onSubmit, isLoading = false }: {{typeName}}EditFormProps) {
-  const form = useForm<{{typeName}}>({
+  const form = useForm<{{dataType}}>({
     resolver: zodResolver({{schemaName}}),
     defaultValues: data
   });
@@ -123,6 +123,27 @@ export const FORM_FIELD_TEMPLATE = `
   )}
 />`;
 
+// Template for a file field (binary properties), the form value holds the selected File(s)
+export const FILE_FIELD_TEMPLATE = `
+<FormField
+  control={form.control}
+  name="{{fieldName}}"
+  render={({ field: { value, onChange, ...field } }) => (
+    <FormItem>
+      <FormLabel>{{fieldLabel}}</FormLabel>
+      <FormControl>
+        <Input 
+          type="file"
+          required={{{fieldRequired}}}{{multiple}}
+          {...field}
+          onChange={(event) => onChange({{fileValue}})}
+        />
+      </FormControl>
+      <FormMessage />
+    </FormItem>
+  )}
+/>`;
+
 // Template for a select field
 export const SELECT_FIELD_TEMPLATE = `
 <FormField
@@ -1,4 +1,4 @@
-// Template for generating React Query hook files
+// Templates for generating the hook files of each hooks backend
 // These template strings are processed by the contract-builder.ts
 
 // Template for a query hook (GET operations)
@@ -6,11 +6,31 @@ export const QUERY_HOOK_TEMPLATE = `
 /**
  * Hook for {{methodName}} operation
  */
-export function {{methodName}}({{params}}options?: { enabled?: boolean }) {
-  return useQuery({
-    queryKey: ['{{resourceName}}', '{{serviceMethodName}}'{{hasParams}}],
-    queryFn: () => {{serviceName}}.{{serviceMethodName}}({{methodParams}}),
-    ...options
+export function {{methodName}}<TData = {{dataType}}>({{params}}options?: QueryOptions<{{dataType}}, {{errorType}}, TData>) {
+  return useQuery<{{dataType}}, {{errorType}}, TData>({
+    ...options,
+    queryKey: {{queryKey}},
+    queryFn: () => {{serviceRequest}}
+  });
+}
+`;
+
+// Template for an infinite query hook (paginated GET operations)
+export const INFINITE_QUERY_HOOK_TEMPLATE = `
+/**
+ * Infinite query hook for {{serviceMethodName}} operation, \`data.items\` holds the items of every loaded page
+ */
+export function {{methodName}}({{params}}options?: InfiniteQueryOptions<{{dataType}}, {{errorType}}, {{pageParamType}}>) {
+  return useInfiniteQuery<{{dataType}}, {{errorType}}, InfiniteItems<{{dataType}}, {{pageParamType}}>, QueryKey, {{pageParamType}}>({
+    ...options,
+    queryKey: {{queryKey}},
+    queryFn: ({ pageParam }) => {{serviceRequest}},
+    initialPageParam: {{initialPageParam}},
+    getNextPageParam: (lastPage) => {{nextPageParam}},
+    select: (data) => ({
+      ...data,
+      items: data.pages.flatMap(page => page.items)
+    })
   });
 }
 `;
@@ -20,18 +40,46 @@ export const MUTATION_HOOK_TEMPLATE = `
 /**
  * Hook for {{methodName}} operation
  */
-export function {{methodName}}(options?: { onSuccess?: () => void; onError?: (error: any) => void }) {
+export function {{methodName}}(options?: MutationOptions<{{dataType}}, {{errorType}}, {{variablesType}}>) {
+  const queryClient = useQueryClient();
+  
+  return useMutation<{{dataType}}, {{errorType}}, {{variablesType}}>({
+    ...options,
+    mutationFn: ({{params}}) => {{serviceRequest}},
+    onSuccess: (...args) => {
+{{invalidationVariables}}      // Invalidate the queries the mutation affects
+{{invalidations}}      return options?.onSuccess?.(...args);
+    }
+  });
+}
+`;
+
+// Template for a mutation hook that can update the cache optimistically (PUT, PATCH, DELETE of one item)
+export const OPTIMISTIC_MUTATION_HOOK_TEMPLATE = `
+/**
+ * Hook for {{methodName}} operation, pass \`optimistic: true\` to update the cached data before the server answers
+ */
+export function {{methodName}}(options?: OptimisticMutationOptions<{{dataType}}, {{errorType}}, {{variablesType}}>) {
   const queryClient = useQueryClient();
+  const { optimistic, ...mutationOptions } = options ?? {};
   
-  return useMutation({
-    mutationFn: ({{params}}) => {{serviceName}}.{{serviceMethodName}}({{methodParams}}),
-    onSuccess: () => {
-      // Invalidate related queries after mutation
-      queryClient.invalidateQueries({ queryKey: ['{{resourceName}}'] });
-      options?.onSuccess?.();
+  return useMutation<{{dataType}}, {{errorType}}, {{variablesType}}, OptimisticSnapshot | undefined>({
+    ...mutationOptions,
+    mutationFn: ({{params}}) => {{serviceRequest}},
+    onMutate: async ({{mutateVariables}}) => optimistic
+      ? {{optimisticUpdate}}
+      : undefined,
+    onError: (...args) => {
+      const [, , snapshot] = args;
+      if (snapshot) {
+        rollbackOptimisticUpdate(queryClient, snapshot);
+      }
+      return options?.onError?.(...args);
     },
-    onError: (error) => {
-      options?.onError?.(error);
+    onSettled: (...args) => {
+      const [, , {{settledVariables}}] = args;
+      // Refetch what the mutation affected, replacing the optimistic data with the server's
+{{invalidations}}      return options?.onSettled?.(...args);
     }
   });
 }
@@ -39,7 +87,235 @@ export function {{methodName}}(options?: { onSuccess?: () => void; onError?: (er
 
 // Template for hook file imports
 export const HOOK_IMPORTS_TEMPLATE = `
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { {{importedTypes}} } from '../types';
-import { {{serviceName}}, {{serviceLower}} } from '../services/{{serviceFile}}';
+import { {{reactQueryImports}} } from '@tanstack/react-query';
+{{typeImports}}import { {{serviceImports}} } from '{{servicePath}}';
+{{supportImports}}{{paginationImports}}`;
+
+// Template for the query key factory of one resource, lists and details below a common root
+// so a mutation can invalidate exactly what it touched
+export const QUERY_KEYS_TEMPLATE = `
+export const {{keysName}} = {
+  all: ['{{resource}}'] as const,
+  lists: () => ['{{resource}}', 'list'] as const,
+  list: (params: object = {}) => ['{{resource}}', 'list', params] as const,
+  details: () => ['{{resource}}', 'detail'] as const,
+  detail: (id: string | number) => ['{{resource}}', 'detail', id] as const
+};
+`;
+
+// Helpers for optimistic updates, written to the hooks directory next to the query keys
+export const OPTIMISTIC_HELPERS_TEMPLATE = `// Auto-generated optimistic update helpers
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { MutationOptions } from './query-options';
+
+/**
+ * Cached data as it was before an optimistic update, restored when the mutation fails
+ */
+export type OptimisticSnapshot = Array<[QueryKey, unknown]>;
+
+// Returns the updated item, or undefined to remove it from lists
+type ItemUpdate = (item: any) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+const hasId = (item: unknown, id: unknown): boolean => isRecord(item) && item.id !== undefined && String(item.id) === String(id);
+
+/**
+ * Applies the update to the item with the given id wherever it is cached: service results,
+ * arrays, paginated results and the pages of infinite queries
+ */
+const patchCachedData = (data: unknown, id: unknown, update: ItemUpdate): unknown => {
+  if (Array.isArray(data)) {
+    return data.flatMap(item => {
+      if (!hasId(item, id)) {
+        return [item];
+      }
+      const updated = update(item);
+      return updated === undefined ? [] : [updated];
+    });
+  }
+  if (!isRecord(data)) {
+    return data;
+  }
+  if (hasId(data, id)) {
+    return update(data) ?? data;
+  }
+  if (Array.isArray(data.pages)) {
+    return { ...data, pages: data.pages.map(page => patchCachedData(page, id, update)) };
+  }
+  if (data.status === 'success' && 'data' in data) {
+    return { ...data, data: patchCachedData(data.data, id, update) };
+  }
+  if (Array.isArray(data.items)) {
+    return { ...data, items: patchCachedData(data.items, id, update) };
+  }
+  return data;
+};
+
+/**
+ * The item with the changes applied, through its \`update\` method for view classes
+ */
+export const mergeItem = (item: any, changes: unknown): unknown => {
+  if (!isRecord(changes)) {
+    return item;
+  }
+  if (typeof item.update === 'function') {
+    return item.update(changes);
+  }
+  return Object.assign(Object.create(Object.getPrototypeOf(item)), item, changes);
+};
+
+/**
+ * Updates every cached query below the given keys, returns what to roll back to
+ */
+export const applyOptimisticUpdate = async (
+  queryClient: QueryClient,
+  queryKeys: QueryKey[],
+  id: unknown,
+  update: ItemUpdate
+): Promise<OptimisticSnapshot> => {
+  // A refetch in flight would overwrite the optimistic data
+  await Promise.all(queryKeys.map(queryKey => queryClient.cancelQueries({ queryKey })));
+
+  const snapshot: OptimisticSnapshot = queryKeys.flatMap(queryKey => queryClient.getQueriesData({ queryKey }));
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, patchCachedData(data, id, update)));
+  return snapshot;
+};
+
+export const rollbackOptimisticUpdate = (queryClient: QueryClient, snapshot: OptimisticSnapshot): void => {
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+/**
+ * Options of a mutation hook supporting optimistic updates, which uses \`onMutate\` itself
+ */
+export type OptimisticMutationOptions<TData, TError, TVariables> =
+  Omit<MutationOptions<TData, TError, TVariables, OptimisticSnapshot | undefined>, 'onMutate'> & { optimistic?: boolean };
+`;
+
+// Option types of the React Query hooks, written to the hooks directory
+export const QUERY_OPTIONS_TEMPLATE = `// Auto-generated option types for the hooks
+import type { InfiniteData, QueryKey, UseMutationOptions, UseQueryOptions, useInfiniteQuery } from '@tanstack/react-query';
+
+export type QueryOptions<TQueryFnData, TError, TData = TQueryFnData> =
+  Omit<UseQueryOptions<TQueryFnData, TError, TData>, 'queryKey' | 'queryFn'>;
+
+export type MutationOptions<TData, TError, TVariables, TContext = unknown> =
+  Omit<UseMutationOptions<TData, TError, TVariables, TContext>, 'mutationFn'>;
+
+/**
+ * The loaded pages of an infinite query, along with the items of all of them
+ */
+export type InfiniteItems<TPage, TPageParam> = InfiniteData<TPage, TPageParam> & {
+  items: TPage extends { items: ReadonlyArray<infer T> } ? T[] : never;
+};
+
+export type InfiniteQueryOptions<TPage, TError, TPageParam> = Omit<
+  Parameters<typeof useInfiniteQuery<TPage, TError, InfiniteItems<TPage, TPageParam>, QueryKey, TPageParam>>[0],
+  'queryKey' | 'queryFn' | 'initialPageParam' | 'getNextPageParam' | 'select'
+>;
+`;
+
+// Result types and unwrapping shared by every hook backend, written to the hooks directory
+export const SERVICE_RESULTS_TEMPLATE = `// Auto-generated service result helpers for the hooks
+type AnyFunction = (...args: any[]) => unknown;
+
+type SuccessData<R> = R extends { status: 'success'; data: infer T } ? T : never;
+
+/**
+ * Data of the success result a service function resolves to
+ */
+export type ServiceData<F extends AnyFunction> = SuccessData<Awaited<ReturnType<F>>>;
+
+/**
+ * Error results of a service function, which its hooks fail with
+ */
+export type ServiceError<F extends AnyFunction> = Exclude<Awaited<ReturnType<F>>, { status: 'success' }>;
+
+/**
+ * Resolves to the data of a success result and rejects with error results, the way
+ * data fetching libraries tell success from failure
+ */
+export const unwrapResult = async <R extends { status: string }>(result: PromiseLike<R>): Promise<SuccessData<R>> => {
+  const resolved = await result;
+  if (resolved.status !== 'success') {
+    throw resolved;
+  }
+  return (resolved as unknown as { data: SuccessData<R> }).data;
+};
+`;
+
+// Template for an SWR query hook (GET operations)
+export const SWR_QUERY_HOOK_TEMPLATE = `
+/**
+ * Hook for {{serviceMethodName}} operation
+ */
+export function {{methodName}}({{params}}config?: SWRConfiguration<{{dataType}}, {{errorType}}>) {
+  return useSWR<{{dataType}}, {{errorType}}>({{queryKey}}, () => {{serviceRequest}}, config);
+}
+`;
+
+// Template for an SWR mutation hook (POST, PUT, DELETE, PATCH operations)
+export const SWR_MUTATION_HOOK_TEMPLATE = `
+/**
+ * Hook for {{serviceMethodName}} operation, \`trigger\` sends the request
+ */
+export function {{methodName}}(config?: SWRMutationConfiguration<{{dataType}}, {{errorType}}, string, {{variablesType}}>) {
+  const { mutate } = useSWRConfig();
+
+  return useSWRMutation<{{dataType}}, {{errorType}}, string, {{variablesType}}>('{{mutationKey}}', async ({{fetcherParams}}) => {
+    const result = await {{serviceRequest}};
+    // Revalidate the queries the mutation affects
+{{revalidations}}    return result;
+  }, config);
+}
+`;
+
+// Template for SWR hook file imports
+export const SWR_HOOK_IMPORTS_TEMPLATE = `
+{{swrImports}}{{typeImports}}import { {{serviceImports}} } from '{{servicePath}}';
+{{supportImports}}`;
+
+// Matching of cached SWR keys, written to the hooks directory next to the query keys
+export const SWR_KEYS_TEMPLATE = `// Auto-generated SWR key helpers
+
+/**
+ * Filter for \`mutate\` matching every cached key that starts with the given query key, so a
+ * mutation revalidates a whole collection, or an item along with everything nested below it
+ */
+export const matchesKey = (prefix: ReadonlyArray<unknown>) => (key: unknown): boolean =>
+  Array.isArray(key) && prefix.every((part, index) => JSON.stringify(key[index]) === JSON.stringify(part));
 `;
+
+// Template for the RTK Query API slice, a single file holding the endpoints of every service
+export const RTK_QUERY_API_TEMPLATE = `// Auto-generated RTK Query API from API spec
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+{{imports}}
+// Endpoints call the services, whose failures become the endpoint's \`error\`
+const toQueryResult = async <T>(request: PromiseLike<T>) => {
+  try {
+    return { data: await request };
+  } catch (error) {
+    return { error };
+  }
+};
+
+export const api = createApi({
+  reducerPath: '{{reducerPath}}',
+  baseQuery: fakeBaseQuery<unknown>(),
+  tagTypes: [{{tagTypes}}],
+  endpoints: (builder) => ({{{endpoints}}
+  })
+});
+
+export const {
+{{hookNames}}
+} = api;
+`;
+
+// Template for an RTK Query endpoint, a query for GET operations and a mutation otherwise
+export const RTK_QUERY_ENDPOINT_TEMPLATE = `
+    {{endpointName}}: builder.{{builderMethod}}<{{dataType}}, {{argType}}>({
+      queryFn: ({{params}}) => toQueryResult({{serviceRequest}}),
+      {{tagsOption}}: {{tags}}
+    }),`;
@@ -40,8 +40,8 @@ export const SERVICE_TEMPLATE_METADATA: TemplateMetadata = {
   extension: ".service.ts",
   indexImportPattern: "export * from './{fileName}';",
   importStatements: [
-    "import { AxiosInstance } from 'axios';",
-    "import { httpClient } from '../utils/http-client';"
+    "import { OpenAPI } from '../core/OpenAPI';",
+    "import { request } from '../core/request';"
   ]
 };
 
@@ -102,3 +102,4 @@ export * from './mock.metadata.js';
 export * from './hook.metadata.js';
 export * from './form.metadata.js';
 export * from './list.metadata.js';
+export * from './core.template.js';
@@ -48,8 +48,30 @@ export const SCHEMA_CONSTRAINTS = {
   pattern: `.regex({{pattern}})`,
   minimum: `.min({{value}})`,
   maximum: `.max({{value}})`,
+  exclusiveMinimum: `.gt({{value}})`,
+  exclusiveMaximum: `.lt({{value}})`,
+  multipleOf: `.multipleOf({{value}})`,
+  minItems: `.min({{value}})`,
+  maxItems: `.max({{value}})`,
+  uniqueItems: `.refine(items => new Set(items).size === items.length, { message: 'Items must be unique' })`,
   email: `.email()`,
   url: `.url()`,
   uuid: `.uuid()`,
+  datetime: `.datetime({ offset: true })`,
+  date: `.regex(/^\\d{4}-\\d{2}-\\d{2}$/)`,
+  ipv4: `.ip({ version: 'v4' })`,
+  ipv6: `.ip({ version: 'v6' })`,
   int: `.int()`
 };
+
+// OpenAPI string formats with a matching Zod refinement
+export const SCHEMA_FORMAT_CONSTRAINTS: Record<string, keyof typeof SCHEMA_CONSTRAINTS> = {
+  'email': 'email',
+  'uri': 'url',
+  'url': 'url',
+  'uuid': 'uuid',
+  'date-time': 'datetime',
+  'date': 'date',
+  'ipv4': 'ipv4',
+  'ipv6': 'ipv6'
+};
@@ -3,7 +3,7 @@ export const SERVICE_TEMPLATE_METADATA = {
   extension: ".service.ts",
   indexImportPattern: "export * from './{fileName}';",
   importStatements: [
-    "import { AxiosInstance } from 'axios';",
-    "import { httpClient } from '../utils/http-client';"
+    "import { OpenAPI } from '../core/OpenAPI';",
+    "import { request } from '../core/request';"
   ]
 };
@@ -19,7 +19,8 @@ export const SERVICE_IMPORTS_TEMPLATE = `{{typeImports}}
 export const SERVICE_TYPE_IMPORTS_TEMPLATE = `import { {{types}} } from '../types';`;
 
 export const SERVICE_CORE_IMPORTS_TEMPLATE = `import { {{entities}} } from './entities/{{entityFile}}.entity';
-import type { ResponseOnSuccess, ResponseOnError } from '@core/Errors';
+import type { ResponseOnSuccess, ResponseOnError } from '../core/Errors';
+import type { ApiRequestOptions } from '../core/request';
 import { OpenAPI } from '../core/OpenAPI';
 import { request } from '../core/request';
 import { CancelablePromise } from '../core/CancelablePromise';`;
@@ -27,21 +28,9 @@ import { CancelablePromise } from '../core/CancelablePromise';`;
 export const SERVICE_REQUEST_METHOD_TEMPLATE = `  /**
    * Request method that handles API calls and maps responses
    */
-  private request<T>(options: {
-    method: string;
-    url: string;
-    path?: Record<string, any>;
-    query?: Record<string, any>;
-    body?: any;
-    requestBody?: any;
-    mediaType?: string;
-    responseHeader?: string;
-    errors?: Record<number, string>;
-  }): CancelablePromise<T> {
-    return request<T>(OpenAPI, {
-      ...options,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  private request<T>(options: ApiRequestOptions): CancelablePromise<T> {
+    // Content-Type comes from the operation's mediaType, set only when it sends a body
+    return request<T>(OpenAPI, options);
   }`;
 
 export const SERVICE_METHOD_TEMPLATE = `  /**
@@ -1,19 +1,14 @@
-// Template for generating view classes with embedded schemas (data handling only)
+// Template for generating view classes over the shared types and schemas (data handling only)
 
 export const VIEW_CLASS_TEMPLATE = `{{imports}}
 
 // Auto-generated view class for {{entityName}} - Safe data handling from API
-import { z } from 'zod';
-
-// Embedded Zod schema for {{entityName}}View validation
-{{zodSchema}}
-
 export class {{entityName}}View {
   private data: {{entityName}};
   
   constructor(data: {{entityName}}) {
-    // Validate data using the embedded schema
-    this.data = {{entityName}}Schema.parse(data);
+    // Responses are checked by the services according to OpenAPI.VALIDATION, use validate() for other data
+    this.data = data;
   }
   
   // Getter methods for safe property access
@@ -72,8 +67,8 @@ export class {{entityName}}View {
   }
 }`;
 
-export const VIEW_IMPORTS_TEMPLATE = `import { {{entityName}} } from '../types';
-import { {{entityName}}Schema } from '../schemas';`;
+export const VIEW_IMPORTS_TEMPLATE = `import type { {{entityName}} } from '{{typesPath}}';
+import { {{entityName}}Schema } from '{{schemasPath}}';`;
 
 export const VIEW_GETTER_METHOD_TEMPLATE = `
   get{{capitalizedPropName}}(): {{propType}} {
@@ -83,3 +78,25 @@ export const VIEW_GETTER_METHOD_TEMPLATE = `
 export const VIEW_INDEX_TEMPLATE = `// Auto-generated view classes for safe API data handling
 
 {{exportStatements}}`;
+
+// Template for oneOf/anyOf schemas with a discriminator - dispatches to the variant view classes
+export const VIEW_UNION_TEMPLATE = `{{imports}}
+
+// Auto-generated polymorphic view for {{entityName}} - picks the variant view from '{{discriminator}}'
+export type {{entityName}}View = {{variantViews}};
+
+export const {{entityName}}View = {
+  from(data: {{entityName}}): {{entityName}}View {
+    switch (data.{{discriminator}}) {
+{{variantCases}}
+      default:
+        throw new Error(\`Unknown {{entityName}} variant: \${String((data as any).{{discriminator}})}\`);
+    }
+  }
+};`;
+
+export const VIEW_UNION_CASE_TEMPLATE = `      case '{{discriminatorValue}}':
+        return new {{variantName}}View(data as {{variantName}});`;
+
+export const VIEW_UNION_IMPORTS_TEMPLATE = `import type { {{entityName}}, {{variantTypes}} } from '{{typesPath}}';
+{{variantViewImports}}`;
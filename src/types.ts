@@ -1,62 +1,127 @@
 export interface OpenApiSpec {
-  paths: Record<string, Record<string, EndpointDefinition>>;
+  openapi?: string;
+  info?: {
+    title?: string;
+    version?: string;
+    description?: string;
+  };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, PathItemDefinition>;
   components: {
     schemas: Record<string, SchemaDefinition>;
     parameters?: Record<string, ParameterDefinition>;
     responses?: Record<string, ResponseDefinition>;
+    securitySchemes?: Record<string, SecuritySchemeDefinition>;
   };
+  security?: SecurityRequirement[];   // Default for operations that do not declare their own
+}
+
+export interface SecuritySchemeDefinition {
+  type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  description?: string;
+  scheme?: string;                    // http: 'bearer', 'basic', ...
+  bearerFormat?: string;
+  name?: string;                      // apiKey: header, query or cookie name
+  in?: 'header' | 'query' | 'cookie';
+  flows?: Record<string, any>;
+  openIdConnectUrl?: string;
 }
 
+// Scheme name -> required scopes; all schemes of a requirement apply together
+export type SecurityRequirement = Record<string, string[]>;
+
 export interface EndpointDefinition {
+  operationId?: string;
   tags?: string[];
   summary?: string;
+  description?: string;
   requestBody?: {
     required: boolean;
-    content: {
-      'application/json': {
-        schema: SchemaReference | SchemaDefinition;
-      };
-    };
+    content: ContentDefinition;
   };
   responses: Record<string, {
     description: string;
-    content?: {
-      'application/json': {
-        schema: SchemaReference | SchemaDefinition;
-      };
-    };
+    content?: ContentDefinition;
   }>;
   parameters?: ParameterDefinition[];
+  security?: SecurityRequirement[];
 }
 
+// Keyed by media type: 'application/json', 'multipart/form-data', 'application/pdf', ...
+export type ContentDefinition = Record<string, MediaTypeDefinition>;
+
+export interface MediaTypeDefinition {
+  schema?: SchemaReference | SchemaDefinition;
+  encoding?: Record<string, { contentType?: string }>;  // Per-property encoding of multipart bodies
+}
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
 export interface SchemaDefinition {
-  type?: string;  // Made optional since it's not always explicitly defined
+  type?: SchemaType | SchemaType[];  // OpenAPI 3.1 allows a list of types, e.g. ['string', 'null']
   properties?: Record<string, any>;
   required?: string[];
-  items?: SchemaDefinition;
-  enum?: string[];
+  items?: SchemaDefinition | SchemaReference;
+  prefixItems?: (SchemaDefinition | SchemaReference)[];  // OpenAPI 3.1 tuple items
+  enum?: any[];
+  const?: any;  // OpenAPI 3.1 single-value schemas
   format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean | number;  // boolean in OpenAPI 3.0, the bound itself in 3.1
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  nullable?: boolean;  // OpenAPI 3.0 only, 3.1 uses type: [..., 'null']
+  default?: any;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  description?: string;
   allOf?: (SchemaDefinition | SchemaReference)[];  // Added for composition patterns
+  oneOf?: (SchemaDefinition | SchemaReference)[];
+  anyOf?: (SchemaDefinition | SchemaReference)[];
+  discriminator?: DiscriminatorDefinition;
+  $defs?: Record<string, SchemaDefinition>;  // OpenAPI 3.1 local definitions
+}
+
+export interface DiscriminatorDefinition {
+  propertyName: string;
+  mapping?: Record<string, string>;  // discriminator value -> schema $ref or name
 }
 
 export interface SchemaReference {
   $ref: string;
 }
 
+export type ParameterStyle = 'matrix' | 'label' | 'form' | 'simple' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
+/**
+ * The operations of a path by HTTP method, next to the parameters they all share
+ */
+export type PathItemDefinition = {
+  [method in Lowercase<HttpMethod>]?: EndpointDefinition;
+} & {
+  parameters?: ParameterDefinition[];
+};
+
 export interface ParameterDefinition {
   name: string;
-  in: 'path' | 'query' | 'header';
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
   required?: boolean;
+  style?: ParameterStyle;
+  explode?: boolean;
   schema: SchemaDefinition;
 }
 
 export interface ResponseDefinition {
   description: string;
-  content?: {
-    'application/json': {
-      schema: SchemaDefinition | SchemaReference;
-    };
-  };
+  content?: ContentDefinition;
 }
 
 export interface EndpointInfo {
@@ -68,6 +133,15 @@ export interface EndpointInfo {
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+// HTTP library the generated services are bound to
+export type HttpClient = 'fetch' | 'axios' | 'ky';
+
+// Services as a class per tag, or as standalone functions per operation
+export type ServiceOutputStyle = 'class' | 'functions';
+
+// Data fetching library the generated hooks are written for
+export type HooksBackend = 'react-query' | 'swr' | 'rtk-query';
+
 export interface GeneratorOptions {
   spec?: string;
   output?: string;
@@ -81,6 +155,7 @@ export interface GeneratorOptions {
   mocks?: boolean | string;
   fakesData?: boolean | string;
   input?: string; // Path to input files (for hooks generator)
+  backend?: HooksBackend; // Library the hooks generator writes for
   forms?: boolean; // Flag to generate form components 
   list?: boolean; // Flag to generate list components
   fromAll?: boolean; // Flag to indicate that the generator is being called from generateAll